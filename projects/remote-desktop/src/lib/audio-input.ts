@@ -0,0 +1,234 @@
+import {ArrayBufferWriter, Client, Status} from '@raytecvision/guacamole-common-js';
+import {AudioWindow} from './guacamole-typings';
+
+/**
+ * Valid microphone state strings.
+ */
+export const MicrophoneState = {
+  /**
+   * The microphone is not forwarded.
+   */
+  IDLE: 'IDLE',
+
+  /**
+   * Access to the microphone has been requested and the user has not answered yet.
+   */
+  REQUESTING: 'REQUESTING',
+
+  /**
+   * The microphone is forwarded to the remote desktop.
+   */
+  LIVE: 'LIVE',
+
+  /**
+   * The user or the browser denied access to the microphone.
+   */
+  DENIED: 'DENIED',
+
+  /**
+   * The browser cannot capture audio, e.g. when the page is not served over
+   * a secure context.
+   */
+  UNSUPPORTED: 'UNSUPPORTED',
+
+  /**
+   * The remote desktop refused or closed the audio stream, e.g. because
+   * audio input is not enabled for the connection.
+   */
+  ERROR: 'ERROR',
+};
+
+/**
+ * The sample rate of the audio sent, in Hz.
+ */
+const SAMPLE_RATE = 44100;
+
+/**
+ * The number of channels of the audio sent.
+ */
+const CHANNELS = 2;
+
+/**
+ * The mimetype of the audio sent: raw signed 16-bit PCM.
+ */
+const MIMETYPE = `audio/L16;rate=${SAMPLE_RATE},channels=${CHANNELS}`;
+
+/**
+ * The number of frames captured between two packets sent.
+ */
+const BUFFER_SIZE = 2048;
+
+/**
+ * Converts captured audio to interleaved signed 16-bit samples, resampled to
+ * the sample rate sent with linear interpolation.
+ *
+ * @param buffer
+ *     The captured audio.
+ */
+function encodePCM(buffer: AudioBuffer): Int16Array {
+  const frames = Math.round(buffer.length * SAMPLE_RATE / buffer.sampleRate);
+  const data = new Int16Array(frames * CHANNELS);
+  for (let channel = 0; channel < CHANNELS; channel++) {
+    const samples = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+    for (let frame = 0; frame < frames; frame++) {
+      const position = frames > 1 ? frame * (samples.length - 1) / (frames - 1) : 0;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, samples.length - 1);
+      const sample = samples[index] + (samples[next] - samples[index]) * (position - index);
+      data[frame * CHANNELS + channel] = Math.max(-1, Math.min(1, sample)) * 0x7FFF;
+    }
+  }
+  return data;
+}
+
+/**
+ * Forwards the microphone to the remote desktop as an audio stream of raw PCM.
+ */
+export class AudioInput {
+  /**
+   * Fired whenever the state changes, with the new state as listed within MicrophoneState.
+   */
+  onstatechange: (state: string) => void = null;
+
+  private state = MicrophoneState.IDLE;
+
+  private mediaStream: MediaStream = null;
+
+  private context: AudioContext = null;
+
+  private source: MediaStreamAudioSourceNode = null;
+
+  private processor: ScriptProcessorNode = null;
+
+  private writer: ArrayBufferWriter = null;
+
+  /**
+   * Requests access to the microphone, then streams it to the given client.
+   *
+   * @param client
+   *     The connected client of the remote desktop.
+   */
+  start(client: Client): void {
+    if (this.state === MicrophoneState.REQUESTING || this.state === MicrophoneState.LIVE) {
+      return;
+    }
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      this.setState(MicrophoneState.UNSUPPORTED);
+      return;
+    }
+
+    this.setState(MicrophoneState.REQUESTING);
+    navigator.mediaDevices.getUserMedia({audio: true})
+      .then(mediaStream => {
+        // Stopped while the user was answering
+        if (this.state !== MicrophoneState.REQUESTING) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        this.mediaStream = mediaStream;
+        this.openStream(client);
+      })
+      .catch(err => {
+        console.warn('Unable to access the microphone', err);
+        if (this.state === MicrophoneState.REQUESTING) {
+          this.setState(MicrophoneState.DENIED);
+        }
+      });
+  }
+
+  /**
+   * Stops forwarding the microphone and releases it.
+   */
+  stop(): void {
+    this.release();
+    if (this.state !== MicrophoneState.IDLE) {
+      this.setState(MicrophoneState.IDLE);
+    }
+  }
+
+  /**
+   * Returns the state, as listed within MicrophoneState.
+   */
+  getState(): string {
+    return this.state;
+  }
+
+  /**
+   * Open the audio stream, then start sending the captured audio once the
+   * remote desktop accepts it
+   * @param client
+   */
+  private openStream(client: Client): void {
+    const writer = this.writer = new ArrayBufferWriter(client.createAudioStream(MIMETYPE));
+    writer.onack = (status: Status) => {
+      if (writer !== this.writer) {
+        return;
+      }
+      if (status.code === Status.Code.SUCCESS) {
+        if (!this.processor) {
+          this.startCapture();
+        }
+        return;
+      }
+
+      // The remote desktop closed the stream or does not accept audio input
+      this.release();
+      this.setState(status.code === Status.Code.RESOURCE_CLOSED ? MicrophoneState.IDLE : MicrophoneState.ERROR);
+    };
+  }
+
+  /**
+   * Encode the captured audio and send it along the audio stream
+   */
+  private startCapture(): void {
+    const AudioContextClass = window.AudioContext || (window as AudioWindow).webkitAudioContext;
+    this.context = new AudioContextClass();
+    this.source = this.context.createMediaStreamSource(this.mediaStream);
+    this.processor = this.context.createScriptProcessor(BUFFER_SIZE, CHANNELS, CHANNELS);
+    this.processor.onaudioprocess = event => {
+      if (this.writer) {
+        this.writer.sendData(encodePCM(event.inputBuffer).buffer);
+      }
+    };
+
+    // The processor only runs while connected to the destination; it outputs silence
+    this.source.connect(this.processor);
+    this.processor.connect(this.context.destination);
+    this.setState(MicrophoneState.LIVE);
+  }
+
+  /**
+   * End the audio stream and release the microphone, if any
+   */
+  private release(): void {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+    }
+    if (this.source) {
+      this.source.disconnect();
+    }
+    if (this.context) {
+      this.context.close().catch(() => null);
+    }
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+    }
+    if (this.writer) {
+      const writer = this.writer;
+      this.writer = null;
+      writer.sendEnd();
+    }
+    this.processor = null;
+    this.source = null;
+    this.context = null;
+    this.mediaStream = null;
+  }
+
+  private setState(state: string): void {
+    this.state = state;
+    if (this.onstatechange) {
+      this.onstatechange(state);
+    }
+  }
+}
@@ -0,0 +1,271 @@
+import {ArrayBufferReader, AudioPlayer, InputStream, RawAudioFormat} from '@raytecvision/guacamole-common-js';
+import {AudioWindow} from './guacamole-typings';
+
+/**
+ * The events counting as a user gesture, after which browsers permit audio playback.
+ */
+const USER_GESTURE_EVENTS = ['pointerdown', 'keydown', 'touchend'];
+
+/**
+ * The shortest audio packet played, in seconds.
+ */
+const MIN_SPLIT_SIZE = 0.02;
+
+/**
+ * The most audio scheduled ahead of time, in seconds. Beyond it, playback
+ * skips ahead to catch up with the remote desktop.
+ */
+const MAX_LATENCY = 0.3;
+
+/**
+ * Plays back raw PCM audio ("audio/L8" or "audio/L16") through the given
+ * output node, like Guacamole.RawAudioPlayer does through the destination of
+ * the shared AudioContext. Packets are cut where the sound is quietest, so
+ * that the gaps between them are not heard.
+ */
+class RawAudioOutputPlayer implements AudioPlayer {
+  private nextPacketTime: number;
+
+  private packetQueue: (Int8Array | Int16Array)[] = [];
+
+  private maxSampleValue: number;
+
+  /**
+   * @param stream
+   *     The audio stream received from the remote desktop.
+   *
+   * @param format
+   *     The format of the audio.
+   *
+   * @param output
+   *     The node the audio is played through.
+   */
+  constructor(stream: InputStream, private format: RawAudioFormat, private output: AudioNode) {
+    this.nextPacketTime = output.context.currentTime;
+    this.maxSampleValue = format.bytesPerSample === 1 ? 128 : 32768;
+    const reader = new ArrayBufferReader(stream);
+    reader.ondata = data => this.play(data);
+  }
+
+  /**
+   * Bounds the audio scheduled ahead of time, at each frame of the remote desktop.
+   */
+  sync(): void {
+    this.nextPacketTime = Math.min(this.nextPacketTime, this.output.context.currentTime + MAX_LATENCY);
+  }
+
+  /**
+   * Schedule the playback of received audio, keeping its quietest end for the next packet
+   * @param data
+   */
+  private play(data: ArrayBuffer): void {
+    this.packetQueue.push(this.toSamples(data));
+    const packet = this.shiftPacket();
+    if (!packet.length) {
+      return;
+    }
+
+    const context = this.output.context;
+    this.nextPacketTime = Math.max(this.nextPacketTime, context.currentTime);
+    const source = context.createBufferSource();
+    source.buffer = this.toAudioBuffer(packet);
+    source.connect(this.output);
+    source.start(this.nextPacketTime);
+    this.nextPacketTime += packet.length / this.format.channels / this.format.rate;
+  }
+
+  /**
+   * Join the queued packets, then split them where the sound is quietest,
+   * leaving the end in the queue
+   */
+  private shiftPacket(): Int8Array | Int16Array {
+    const channels = this.format.channels;
+    const data = this.joinPackets(this.packetQueue);
+    const samples = Math.floor(data.length / channels);
+    const minSplitSamples = Math.floor(this.format.rate * MIN_SPLIT_SIZE);
+    const start = Math.max(channels * minSplitSamples, channels * (samples - minSplitSamples));
+
+    let minValue = Number.MAX_VALUE;
+    let splitLength = data.length;
+    for (let offset = start; offset < data.length; offset += channels) {
+      let value = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        value += Math.abs(data[offset + channel]);
+      }
+      if (value <= minValue) {
+        splitLength = offset + channels;
+        minValue = value;
+      }
+    }
+
+    if (splitLength === data.length) {
+      this.packetQueue = [];
+      return data;
+    }
+    this.packetQueue = [data.slice(splitLength)];
+    return data.slice(0, splitLength);
+  }
+
+  /**
+   * Join the given packets into one
+   * @param packets
+   */
+  private joinPackets(packets: (Int8Array | Int16Array)[]): Int8Array | Int16Array {
+    if (packets.length === 1) {
+      return packets[0];
+    }
+    const joined = this.format.bytesPerSample === 1
+      ? new Int8Array(packets.reduce((length, packet) => length + packet.length, 0))
+      : new Int16Array(packets.reduce((length, packet) => length + packet.length, 0));
+    let offset = 0;
+    packets.forEach(packet => {
+      joined.set(packet, offset);
+      offset += packet.length;
+    });
+    return joined;
+  }
+
+  /**
+   * Read the samples of received audio
+   * @param data
+   */
+  private toSamples(data: ArrayBuffer): Int8Array | Int16Array {
+    return this.format.bytesPerSample === 1 ? new Int8Array(data) : new Int16Array(data);
+  }
+
+  /**
+   * Convert interleaved samples to an AudioBuffer
+   * @param packet
+   */
+  private toAudioBuffer(packet: Int8Array | Int16Array): AudioBuffer {
+    const channels = this.format.channels;
+    const samples = packet.length / channels;
+    const buffer = this.output.context.createBuffer(channels, samples, this.format.rate);
+    for (let channel = 0; channel < channels; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      for (let i = 0, offset = channel; i < samples; i++, offset += channels) {
+        channelData[i] = packet[offset] / this.maxSampleValue;
+      }
+    }
+    return buffer;
+  }
+}
+
+/**
+ * Plays back the audio streams of a session through its own AudioContext,
+ * so that the volume of each session can be set independently.
+ */
+export class AudioOutput {
+  /**
+   * The AudioContext of the session, created along with the first player
+   */
+  private context: AudioContext = null;
+
+  /**
+   * The node every player of the session is connected to, applying the volume
+   */
+  private gain: GainNode = null;
+
+  private volume = 1;
+
+  private muted = false;
+
+  /**
+   * Resumes the AudioContext, which browsers suspend until the user interacts with the page
+   */
+  private resumeListener = () => this.resume();
+
+  /**
+   * Returns a player for the given audio stream, or null if its mimetype is
+   * not supported.
+   *
+   * @param stream
+   *     The audio stream received from the remote desktop.
+   *
+   * @param mimetype
+   *     The mimetype of the audio, e.g. "audio/L16;rate=44100,channels=2".
+   */
+  createPlayer(stream: InputStream, mimetype: string): AudioPlayer {
+    const format = RawAudioFormat.parse(mimetype);
+    if (!format || !this.createContext()) {
+      return null;
+    }
+    return new RawAudioOutputPlayer(stream, format, this.gain);
+  }
+
+  /**
+   * Sets the volume of the audio.
+   *
+   * @param volume
+   *     The volume, from 0 to 1.
+   *
+   * @param muted
+   *     Whether the audio is muted, regardless of the volume.
+   */
+  setVolume(volume: number, muted: boolean): void {
+    this.volume = volume;
+    this.muted = muted;
+    if (this.gain) {
+      this.gain.gain.value = muted ? 0 : volume;
+    }
+  }
+
+  /**
+   * Stops listening for user gestures and closes the AudioContext. Another
+   * one is created along with the next player.
+   */
+  close(): void {
+    this.removeGestureListeners();
+    if (this.context) {
+      this.context.close().catch(() => null);
+    }
+    this.context = null;
+    this.gain = null;
+  }
+
+  /**
+   * Create the AudioContext of the session, unless it exists already
+   * @returns Whether the Web Audio API is supported
+   */
+  private createContext(): boolean {
+    if (this.context) {
+      return true;
+    }
+    const AudioContextClass = window.AudioContext || (window as AudioWindow).webkitAudioContext;
+    if (!AudioContextClass) {
+      return false;
+    }
+    try {
+      this.context = new AudioContextClass();
+    } catch (e) {
+      return false;
+    }
+
+    // The players are connected to the gain node rather than to the destination
+    this.gain = this.context.createGain();
+    this.gain.connect(this.context.destination);
+    this.setVolume(this.volume, this.muted);
+
+    if (this.context.state === 'suspended') {
+      USER_GESTURE_EVENTS.forEach(type => document.addEventListener(type, this.resumeListener, true));
+    }
+    return true;
+  }
+
+  /**
+   * Resume the AudioContext, once the user interacted with the page
+   */
+  private resume(): void {
+    if (!this.context || this.context.state !== 'suspended') {
+      this.removeGestureListeners();
+      return;
+    }
+    this.context.resume()
+      .then(() => this.removeGestureListeners())
+      .catch(() => null);
+  }
+
+  private removeGestureListeners(): void {
+    USER_GESTURE_EVENTS.forEach(type => document.removeEventListener(type, this.resumeListener, true));
+  }
+}
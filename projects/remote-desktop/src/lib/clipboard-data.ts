@@ -0,0 +1,54 @@
+/**
+ * The contents of a clipboard, exchanged with the remote desktop.
+ */
+export interface ClipboardData {
+  /**
+   * The mimetype of the contents, e.g. "text/plain", "text/html" or "image/png".
+   */
+  mimetype: string;
+
+  /**
+   * The text of text contents, or the blob of any other contents.
+   */
+  data: string | Blob;
+}
+
+/**
+ * Returns whether contents of the given mimetype are exchanged as text.
+ *
+ * @param mimetype
+ *     The mimetype of the contents.
+ */
+export function isTextMimetype(mimetype: string): boolean {
+  return /^text\//.test(mimetype);
+}
+
+/**
+ * Returns whether contents of the given mimetype are exchanged as an image.
+ *
+ * @param mimetype
+ *     The mimetype of the contents.
+ */
+export function isImageMimetype(mimetype: string): boolean {
+  return /^image\//.test(mimetype);
+}
+
+/**
+ * Returns whether the given clipboard contents are most likely the same.
+ * Blobs are only compared by size, as reading them again would be costly.
+ *
+ * @param a
+ *     The first contents, if any.
+ *
+ * @param b
+ *     The second contents, if any.
+ */
+export function isSameClipboardData(a: ClipboardData, b: ClipboardData): boolean {
+  if (!a || !b || a.mimetype !== b.mimetype) {
+    return false;
+  }
+  if (typeof a.data === 'string' || typeof b.data === 'string') {
+    return a.data === b.data;
+  }
+  return a.data.size === b.data.size;
+}
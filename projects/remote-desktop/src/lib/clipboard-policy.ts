@@ -0,0 +1,224 @@
+import {ClipboardData} from './clipboard-data';
+
+/**
+ * Valid clipboard transfer direction strings.
+ */
+export const ClipboardDirection = {
+  /**
+   * From the local machine into the remote desktop.
+   */
+  IN: 'IN',
+
+  /**
+   * From the remote desktop out to the local machine.
+   */
+  OUT: 'OUT',
+};
+
+/**
+ * Valid reason strings for which a clipboard transfer is blocked.
+ */
+export const ClipboardBlockReason = {
+  /**
+   * The policy forbids transfers in this direction.
+   */
+  DIRECTION: 'DIRECTION',
+
+  /**
+   * The contents are larger than the policy permits.
+   */
+  SIZE: 'SIZE',
+
+  /**
+   * The policy does not permit contents of this mimetype.
+   */
+  MIMETYPE: 'MIMETYPE',
+
+  /**
+   * A filter of the policy rejected the contents.
+   */
+  FILTER: 'FILTER',
+
+  /**
+   * The session is view-only, so nothing may be sent into the remote desktop.
+   */
+  READ_ONLY: 'READ_ONLY',
+};
+
+/**
+ * Inspects clipboard contents before they are transferred. Returns the
+ * contents to transfer, possibly scrubbed, or null to block the transfer.
+ *
+ * @param data
+ *     The clipboard contents.
+ *
+ * @param direction
+ *     The direction of the transfer, as listed within ClipboardDirection.
+ */
+export type ClipboardFilter = (data: ClipboardData, direction: string) => ClipboardData | null;
+
+/**
+ * Describes which clipboard contents may be transferred between the local
+ * machine and the remote desktop, e.g. for data-loss prevention.
+ */
+export interface ClipboardPolicy {
+  /**
+   * Whether the local clipboard may be sent into the remote desktop.
+   */
+  allowCopyIn: boolean;
+
+  /**
+   * Whether the remote clipboard may be received out of the remote desktop.
+   */
+  allowCopyOut: boolean;
+
+  /**
+   * The largest contents transferred, in bytes, or null for no limit.
+   */
+  maxSize: number;
+
+  /**
+   * The mimetypes transferred, or null for any mimetype.
+   */
+  allowedMimetypes: string[];
+
+  /**
+   * The filters applied in order to the contents transferred in either direction.
+   */
+  filters: ClipboardFilter[];
+}
+
+/**
+ * The policy in use until one is set through
+ * RemoteDesktopService.setClipboardPolicy(). Everything is permitted.
+ */
+export const DEFAULT_CLIPBOARD_POLICY: ClipboardPolicy = {
+  allowCopyIn: true,
+  allowCopyOut: true,
+  maxSize: null,
+  allowedMimetypes: null,
+  filters: [],
+};
+
+/**
+ * A clipboard transfer blocked by the clipboard policy.
+ */
+export interface BlockedClipboardTransfer {
+  /**
+   * The direction of the transfer, as listed within ClipboardDirection.
+   */
+  direction: string;
+
+  /**
+   * The reason the transfer is blocked, as listed within ClipboardBlockReason.
+   */
+  reason: string;
+
+  /**
+   * The mimetype of the contents.
+   */
+  mimetype: string;
+
+  /**
+   * The size of the contents, in bytes.
+   */
+  size: number;
+
+  /**
+   * When the transfer was blocked, in milliseconds since the epoch.
+   */
+  timestamp: number;
+}
+
+/**
+ * The outcome of applying the clipboard policy to some contents: either the
+ * contents to transfer or the reason they are blocked.
+ */
+export interface ClipboardPolicyResult {
+  data: ClipboardData;
+  reason: string;
+}
+
+/**
+ * Matches credit card numbers: 13 to 19 digits, possibly grouped by spaces or dashes.
+ */
+export const CREDIT_CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/**
+ * Returns the size of the given clipboard contents, in bytes.
+ *
+ * @param data
+ *     The clipboard contents.
+ */
+export function getClipboardDataSize(data: ClipboardData): number {
+  return typeof data.data === 'string' ? new Blob([data.data]).size : data.data.size;
+}
+
+/**
+ * Returns a filter replacing the matches of the given pattern within text
+ * contents, e.g. credit card numbers. Other contents are left unchanged.
+ *
+ * @param pattern
+ *     The pattern to scrub. It must have the global flag to replace every match.
+ *
+ * @param replacement
+ *     The text each match is replaced with.
+ */
+export function createScrubbingFilter(pattern: RegExp, replacement = '[REDACTED]'): ClipboardFilter {
+  return data => typeof data.data === 'string'
+    ? {mimetype: data.mimetype, data: data.data.replace(pattern, replacement)}
+    : data;
+}
+
+/**
+ * Returns the reason the given policy blocks a transfer whatever its
+ * contents, or null. This can be checked before the contents are received.
+ *
+ * @param policy
+ *     The clipboard policy in use.
+ *
+ * @param mimetype
+ *     The mimetype of the contents.
+ *
+ * @param direction
+ *     The direction of the transfer, as listed within ClipboardDirection.
+ */
+export function checkClipboardTransfer(policy: ClipboardPolicy, mimetype: string, direction: string): string {
+  const allowed = direction === ClipboardDirection.IN ? policy.allowCopyIn : policy.allowCopyOut;
+  if (!allowed) {
+    return ClipboardBlockReason.DIRECTION;
+  }
+  if (policy.allowedMimetypes && !policy.allowedMimetypes.includes(mimetype)) {
+    return ClipboardBlockReason.MIMETYPE;
+  }
+  return null;
+}
+
+/**
+ * Applies the given policy to clipboard contents about to be transferred.
+ *
+ * @param policy
+ *     The clipboard policy in use.
+ *
+ * @param data
+ *     The clipboard contents.
+ *
+ * @param direction
+ *     The direction of the transfer, as listed within ClipboardDirection.
+ */
+export function applyClipboardPolicy(policy: ClipboardPolicy, data: ClipboardData, direction: string): ClipboardPolicyResult {
+  const reason = checkClipboardTransfer(policy, data.mimetype, direction);
+  if (reason) {
+    return {data: null, reason};
+  }
+  if (typeof policy.maxSize === 'number' && getClipboardDataSize(data) > policy.maxSize) {
+    return {data: null, reason: ClipboardBlockReason.SIZE};
+  }
+  for (const filter of policy.filters) {
+    data = filter(data, direction);
+    if (!data) {
+      return {data: null, reason: ClipboardBlockReason.FILTER};
+    }
+  }
+  return {data, reason: null};
+}
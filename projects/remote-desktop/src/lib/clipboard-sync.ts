@@ -0,0 +1,124 @@
+import {ClipboardData, isTextMimetype} from './clipboard-data';
+
+/**
+ * Valid clipboard synchronization status strings.
+ */
+export const ClipboardSyncStatus = {
+  /**
+   * The clipboard is only exchanged through sendRemoteClipboardData() and
+   * onRemoteClipboardData.
+   */
+  DISABLED: 'DISABLED',
+
+  /**
+   * The local and remote clipboards are kept in sync.
+   */
+  ACTIVE: 'ACTIVE',
+
+  /**
+   * The browser denied access to the local clipboard. Text pasted into the
+   * page is still sent to the remote desktop.
+   */
+  DENIED: 'DENIED',
+
+  /**
+   * The browser has no Clipboard API, e.g. when the page is not served over
+   * a secure context.
+   */
+  UNSUPPORTED: 'UNSUPPORTED',
+};
+
+/**
+ * The mimetypes read from the local clipboard, by order of preference. Text
+ * comes first as every remote desktop accepts it.
+ */
+const LOCAL_CLIPBOARD_MIMETYPES = ['text/plain', 'image/png', 'text/html'];
+
+/**
+ * Returns the Clipboard API of the browser, or null if it is missing.
+ */
+function getLocalClipboard(): Clipboard {
+  return typeof navigator !== 'undefined' && navigator.clipboard ? navigator.clipboard : null;
+}
+
+/**
+ * Returns the text of the given HTML, used as the plain text alternative of
+ * HTML written into the local clipboard.
+ */
+function getHtmlText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+}
+
+/**
+ * Returns whether the browser can read or write the local clipboard.
+ */
+export function isLocalClipboardSupported(): boolean {
+  const clipboard = getLocalClipboard();
+  return !!clipboard && (typeof clipboard.readText === 'function' || typeof clipboard.writeText === 'function');
+}
+
+/**
+ * Returns whether contents of the given mimetype can be written into the
+ * local clipboard. Browsers only accept text, HTML and PNG images.
+ *
+ * @param mimetype
+ *     The mimetype of the contents.
+ */
+export function isLocalClipboardMimetype(mimetype: string): boolean {
+  return LOCAL_CLIPBOARD_MIMETYPES.includes(mimetype);
+}
+
+/**
+ * Reads the contents of the local clipboard, preferring text over images and
+ * images over HTML. Resolves with null if the clipboard holds none of them,
+ * and rejects if the browser cannot read it or the user denies the permission.
+ */
+export function readLocalClipboard(): Promise<ClipboardData> {
+  const clipboard = getLocalClipboard();
+  if (clipboard && typeof clipboard.read === 'function') {
+    return clipboard.read().then(items => {
+      for (const mimetype of LOCAL_CLIPBOARD_MIMETYPES) {
+        const item = items.find(candidate => candidate.types.includes(mimetype));
+        if (item) {
+          return item.getType(mimetype).then(blob => isTextMimetype(mimetype)
+            ? blob.text().then(text => ({mimetype, data: text}))
+            : {mimetype, data: blob});
+        }
+      }
+      return null;
+    });
+  }
+  if (!clipboard || typeof clipboard.readText !== 'function') {
+    return Promise.reject(new Error('Reading the clipboard is not supported'));
+  }
+  return clipboard.readText().then(text => ({mimetype: 'text/plain', data: text}));
+}
+
+/**
+ * Writes the given contents into the local clipboard. HTML comes along with
+ * its text, so that it can be pasted as plain text as well. Rejects if the
+ * browser cannot write it or the user denies the permission.
+ *
+ * @param data
+ *     The contents to write.
+ */
+export function writeLocalClipboard(data: ClipboardData): Promise<void> {
+  const clipboard = getLocalClipboard();
+  if (data.mimetype === 'text/plain' && typeof data.data === 'string') {
+    if (!clipboard || typeof clipboard.writeText !== 'function') {
+      return Promise.reject(new Error('Writing the clipboard is not supported'));
+    }
+    return clipboard.writeText(data.data);
+  }
+
+  if (!clipboard || typeof clipboard.write !== 'function' || typeof ClipboardItem === 'undefined') {
+    return Promise.reject(new Error(`Writing ${data.mimetype} to the clipboard is not supported`));
+  }
+  const items: { [mimetype: string]: Blob } = {
+    [data.mimetype]: typeof data.data === 'string' ? new Blob([data.data], {type: data.mimetype}) : data.data,
+  };
+  if (data.mimetype === 'text/html' && typeof data.data === 'string') {
+    items['text/plain'] = new Blob([getHtmlText(data.data)], {type: 'text/plain'});
+  }
+  return clipboard.write([new ClipboardItem(items)]);
+}
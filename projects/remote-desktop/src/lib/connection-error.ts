@@ -0,0 +1,211 @@
+import {Status} from '@raytecvision/guacamole-common-js';
+import './guacamole-typings';
+
+/**
+ * Categorised reasons for a connection to terminate with an error. Each
+ * reason groups one or more Guacamole protocol status codes.
+ */
+export const ConnectionErrorReason = {
+  /**
+   * The requested operation is unsupported.
+   */
+  UNSUPPORTED: 'UNSUPPORTED',
+
+  /**
+   * An internal error occurred within the Guacamole server.
+   */
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+
+  /**
+   * The Guacamole server is too busy to handle the connection.
+   */
+  SERVER_BUSY: 'SERVER_BUSY',
+
+  /**
+   * The remote desktop server is taking too long to respond.
+   */
+  UPSTREAM_TIMEOUT: 'UPSTREAM_TIMEOUT',
+
+  /**
+   * The remote desktop server reported an error.
+   */
+  UPSTREAM_ERROR: 'UPSTREAM_ERROR',
+
+  /**
+   * The remote desktop server cannot be found.
+   */
+  UPSTREAM_NOT_FOUND: 'UPSTREAM_NOT_FOUND',
+
+  /**
+   * The remote desktop server refuses the connection.
+   */
+  UPSTREAM_UNAVAILABLE: 'UPSTREAM_UNAVAILABLE',
+
+  /**
+   * The requested connection does not exist.
+   */
+  RESOURCE_NOT_FOUND: 'RESOURCE_NOT_FOUND',
+
+  /**
+   * The requested connection is already in use.
+   */
+  RESOURCE_CONFLICT: 'RESOURCE_CONFLICT',
+
+  /**
+   * The connection has been closed by the server.
+   */
+  RESOURCE_CLOSED: 'RESOURCE_CLOSED',
+
+  /**
+   * The session conflicts with another session on the remote desktop server.
+   */
+  SESSION_CONFLICT: 'SESSION_CONFLICT',
+
+  /**
+   * The session has been closed because it was inactive.
+   */
+  SESSION_TIMEOUT: 'SESSION_TIMEOUT',
+
+  /**
+   * The session has been forcibly closed by the remote desktop server.
+   */
+  SESSION_CLOSED: 'SESSION_CLOSED',
+
+  /**
+   * The request sent by the browser was invalid.
+   */
+  BAD_REQUEST: 'BAD_REQUEST',
+
+  /**
+   * The user could not be authenticated.
+   */
+  AUTHENTICATION_FAILED: 'AUTHENTICATION_FAILED',
+
+  /**
+   * The user is not allowed to access the connection.
+   */
+  PERMISSION_DENIED: 'PERMISSION_DENIED',
+
+  /**
+   * The browser did not respond for too long.
+   */
+  CLIENT_TIMEOUT: 'CLIENT_TIMEOUT',
+
+  /**
+   * The user has too many connections open.
+   */
+  TOO_MANY_CONNECTIONS: 'TOO_MANY_CONNECTIONS',
+
+  /**
+   * The error does not match any known status code.
+   */
+  UNKNOWN: 'UNKNOWN',
+};
+
+/**
+ * The reason of each Guacamole protocol status code.
+ * Any status code not present in this list is categorised as UNKNOWN.
+ */
+const STATUS_CODE_REASONS = {
+  0x0100: ConnectionErrorReason.UNSUPPORTED,
+  0x0200: ConnectionErrorReason.INTERNAL_ERROR,
+  0x0201: ConnectionErrorReason.SERVER_BUSY,
+  0x0202: ConnectionErrorReason.UPSTREAM_TIMEOUT,
+  0x0203: ConnectionErrorReason.UPSTREAM_ERROR,
+  0x0204: ConnectionErrorReason.RESOURCE_NOT_FOUND,
+  0x0205: ConnectionErrorReason.RESOURCE_CONFLICT,
+  0x0206: ConnectionErrorReason.RESOURCE_CLOSED,
+  0x0207: ConnectionErrorReason.UPSTREAM_NOT_FOUND,
+  0x0208: ConnectionErrorReason.UPSTREAM_UNAVAILABLE,
+  0x0209: ConnectionErrorReason.SESSION_CONFLICT,
+  0x020A: ConnectionErrorReason.SESSION_TIMEOUT,
+  0x020B: ConnectionErrorReason.SESSION_CLOSED,
+  0x0300: ConnectionErrorReason.BAD_REQUEST,
+  0x0301: ConnectionErrorReason.AUTHENTICATION_FAILED,
+  0x0303: ConnectionErrorReason.PERMISSION_DENIED,
+  0x0308: ConnectionErrorReason.CLIENT_TIMEOUT,
+  0x030D: ConnectionErrorReason.BAD_REQUEST,
+  0x030F: ConnectionErrorReason.BAD_REQUEST,
+  0x031D: ConnectionErrorReason.TOO_MANY_CONNECTIONS,
+};
+
+/**
+ * Default English description of each connection error reason.
+ */
+export const CONNECTION_ERROR_DESCRIPTIONS = {
+  UNSUPPORTED: 'The remote desktop server does not support the requested operation. Please contact your system administrator, or check your system logs.',
+  INTERNAL_ERROR: 'An internal error has occurred within the Guacamole server, and the connection has been terminated. If the problem persists, please notify your system administrator, or check your system logs.',
+  SERVER_BUSY: 'This connection has been closed because the server is busy. Please wait a few minutes and try again.',
+  UPSTREAM_TIMEOUT: 'The connection has been closed because the remote desktop is taking too long to respond. Please try again or contact your system administrator.',
+  UPSTREAM_ERROR: 'The remote desktop server encountered an error and has closed the connection. Please try again or contact your system administrator.',
+  UPSTREAM_NOT_FOUND: 'The remote desktop server is currently unreachable. If the problem persists, please notify your system administrator, or check your system logs.',
+  UPSTREAM_UNAVAILABLE: 'The remote desktop server is currently unavailable. If the problem persists, please notify your system administrator, or check your system logs.',
+  RESOURCE_NOT_FOUND: 'The requested connection does not exist. Please check the connection name and try again.',
+  RESOURCE_CONFLICT: 'The requested connection is already in use. Please wait for it to be released and try again.',
+  RESOURCE_CLOSED: 'The connection has been closed. Please reconnect and try again.',
+  SESSION_CONFLICT: 'The remote desktop server has closed the connection because it conflicts with another connection. Please try again later.',
+  SESSION_TIMEOUT: 'The remote desktop server has closed the connection because it appeared to be inactive. If this is undesired or unexpected, please notify your system administrator, or check your system settings.',
+  SESSION_CLOSED: 'The remote desktop server has forcibly closed the connection. If this is undesired or unexpected, please notify your system administrator, or check your system logs.',
+  BAD_REQUEST: 'The server has rejected the request sent by your browser. Please reconnect and try again.',
+  AUTHENTICATION_FAILED: 'Log in failed. Please reconnect and try again.',
+  PERMISSION_DENIED: 'You do not have permission to access this connection. If you require access, please check with your system administrator.',
+  CLIENT_TIMEOUT: 'The connection has been closed because there has been no response from your browser for too long. This is commonly caused by network problems, such as spotty wireless signal, or simply very slow network speeds. Please check your network and try again.',
+  TOO_MANY_CONNECTIONS: 'Access has been denied because you have too many connections open. Please close one or more connections and try again.',
+  UNKNOWN: 'The remote desktop server is currently unreachable.',
+};
+
+/**
+ * An error which terminated the connection to the remote desktop.
+ */
+export class ConnectionError {
+  /**
+   * The Guacamole protocol status code of the error.
+   */
+  code: number;
+
+  /**
+   * The message sent along with the status code, if any.
+   */
+  message: string;
+
+  /**
+   * Whether the error has been reported by the client or by the tunnel.
+   */
+  origin: 'client' | 'tunnel';
+
+  /**
+   * The categorised reason of the error, as listed within ConnectionErrorReason.
+   */
+  reason: string;
+
+  constructor(code: number, message: string, origin: 'client' | 'tunnel') {
+    this.code = code;
+    this.message = message;
+    this.origin = origin;
+    this.reason = STATUS_CODE_REASONS[code] || ConnectionErrorReason.UNKNOWN;
+  }
+
+  /**
+   * Creates a ConnectionError from whatever has been reported by the client
+   * or the tunnel: usually a Guacamole.Status, sometimes a plain message.
+   *
+   * @param status
+   *     The reported status or message.
+   *
+   * @param origin
+   *     Whether the error has been reported by the client or by the tunnel.
+   */
+  static fromStatus(status: Status | string, origin: 'client' | 'tunnel'): ConnectionError {
+    if (typeof status === 'string') {
+      return new ConnectionError(Status.Code.INTERNAL_ERROR, status, origin);
+    }
+    return new ConnectionError(status.code, status.message, origin);
+  }
+
+  /**
+   * Returns the default English description of this error.
+   */
+  getDescription(): string {
+    return CONNECTION_ERROR_DESCRIPTIONS[this.reason];
+  }
+}
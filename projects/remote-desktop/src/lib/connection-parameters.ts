@@ -0,0 +1,542 @@
+/**
+ * A single connection parameter value. Booleans and numbers are serialised
+ * the way guacd expects them ("true"/"false" and decimal strings).
+ */
+export type ConnectionParameterValue = string | number | boolean;
+
+/**
+ * Parameters understood by the tunnel itself rather than by guacd.
+ */
+export interface TunnelConnectionParameters {
+  /**
+   * The authentication token expected by the tunnel backend.
+   */
+  token?: string;
+
+  /**
+   * The share key of the shared session to join, resolved by the tunnel
+   * backend. Set by RemoteDesktopService.joinSharedSession().
+   */
+  key?: string;
+
+  /**
+   * The optimal width of the display, in pixels.
+   */
+  width?: number;
+
+  /**
+   * The optimal height of the display, in pixels.
+   */
+  height?: number;
+
+  /**
+   * The resolution of the display, in DPI.
+   */
+  dpi?: number;
+}
+
+/**
+ * Parameters common to every protocol.
+ */
+export interface NetworkConnectionParameters extends TunnelConnectionParameters {
+  /**
+   * The hostname or IP address of the remote desktop server.
+   */
+  hostname: string;
+
+  /**
+   * The port the remote desktop server listens on.
+   */
+  port?: number;
+}
+
+/**
+ * Clipboard restrictions, shared by all protocols.
+ */
+export interface ClipboardConnectionParameters {
+  'disable-copy'?: boolean;
+  'disable-paste'?: boolean;
+}
+
+/**
+ * Session recording options, shared by all protocols.
+ */
+export interface RecordingConnectionParameters {
+  'recording-path'?: string;
+  'recording-name'?: string;
+  'create-recording-path'?: boolean;
+  'recording-exclude-output'?: boolean;
+  'recording-exclude-mouse'?: boolean;
+  'recording-include-keys'?: boolean;
+}
+
+/**
+ * SFTP file transfer options, shared by VNC, RDP and SSH.
+ */
+export interface SftpConnectionParameters {
+  'enable-sftp'?: boolean;
+  'sftp-hostname'?: string;
+  'sftp-host-key'?: string;
+  'sftp-port'?: number;
+  'sftp-username'?: string;
+  'sftp-password'?: string;
+  'sftp-private-key'?: string;
+  'sftp-passphrase'?: string;
+  'sftp-directory'?: string;
+  'sftp-root-directory'?: string;
+  'sftp-server-alive-interval'?: number;
+  'sftp-disable-download'?: boolean;
+  'sftp-disable-upload'?: boolean;
+}
+
+/**
+ * Display options of the text terminal, shared by SSH, Telnet and Kubernetes.
+ */
+export interface TerminalConnectionParameters {
+  'color-scheme'?: string;
+  'font-name'?: string;
+  'font-size'?: number;
+  'scrollback'?: number;
+  'read-only'?: boolean;
+  'backspace'?: number;
+  'terminal-type'?: string;
+  'typescript-path'?: string;
+  'typescript-name'?: string;
+  'create-typescript-path'?: boolean;
+}
+
+/**
+ * Parameters of a VNC connection
+ */
+export interface VncConnectionParameters extends NetworkConnectionParameters, ClipboardConnectionParameters,
+  RecordingConnectionParameters, SftpConnectionParameters {
+  scheme: 'vnc';
+  'username'?: string;
+  'password'?: string;
+  'autoretry'?: number;
+  'color-depth'?: 8 | 16 | 24 | 32;
+  'swap-red-blue'?: boolean;
+  'cursor'?: 'local' | 'remote';
+  'encodings'?: string;
+  'read-only'?: boolean;
+  'force-lossless'?: boolean;
+  'dest-host'?: string;
+  'dest-port'?: number;
+  'reverse-connect'?: boolean;
+  'listen-timeout'?: number;
+  'enable-audio'?: boolean;
+  'audio-servername'?: string;
+  'clipboard-encoding'?: 'ISO8859-1' | 'UTF-8' | 'UTF-16' | 'CP1252';
+}
+
+/**
+ * Parameters of an RDP connection
+ */
+export interface RdpConnectionParameters extends NetworkConnectionParameters, ClipboardConnectionParameters,
+  RecordingConnectionParameters, SftpConnectionParameters {
+  scheme: 'rdp';
+  'username'?: string;
+  'password'?: string;
+  'domain'?: string;
+  'security'?: 'any' | 'nla' | 'nla-ext' | 'tls' | 'vmconnect' | 'rdp';
+  'ignore-cert'?: boolean;
+  'disable-auth'?: boolean;
+  'initial-program'?: string;
+  'color-depth'?: 8 | 16 | 24 | 32;
+  'resize-method'?: 'display-update' | 'reconnect';
+  'read-only'?: boolean;
+  'server-layout'?: string;
+  'timezone'?: string;
+  'console'?: boolean;
+  'enable-drive'?: boolean;
+  'drive-name'?: string;
+  'drive-path'?: string;
+  'create-drive-path'?: boolean;
+  'disable-download'?: boolean;
+  'disable-upload'?: boolean;
+  'disable-audio'?: boolean;
+  'enable-audio-input'?: boolean;
+  'enable-printing'?: boolean;
+  'printer-name'?: string;
+  'normalize-clipboard'?: 'preserve' | 'unix' | 'windows';
+  'enable-wallpaper'?: boolean;
+  'enable-theming'?: boolean;
+  'enable-font-smoothing'?: boolean;
+  'enable-full-window-drag'?: boolean;
+  'enable-desktop-composition'?: boolean;
+  'enable-menu-animations'?: boolean;
+}
+
+/**
+ * Parameters of an SSH connection
+ */
+export interface SshConnectionParameters extends NetworkConnectionParameters, ClipboardConnectionParameters,
+  RecordingConnectionParameters, SftpConnectionParameters, TerminalConnectionParameters {
+  scheme: 'ssh';
+  'host-key'?: string;
+  'username'?: string;
+  'password'?: string;
+  'private-key'?: string;
+  'passphrase'?: string;
+  'command'?: string;
+  'locale'?: string;
+  'timezone'?: string;
+  'server-alive-interval'?: number;
+}
+
+/**
+ * Parameters of a Telnet connection
+ */
+export interface TelnetConnectionParameters extends NetworkConnectionParameters, ClipboardConnectionParameters,
+  RecordingConnectionParameters, TerminalConnectionParameters {
+  scheme: 'telnet';
+  'username'?: string;
+  'password'?: string;
+  'username-regex'?: string;
+  'password-regex'?: string;
+  'login-success-regex'?: string;
+  'login-failure-regex'?: string;
+}
+
+/**
+ * Parameters of a Kubernetes connection
+ */
+export interface KubernetesConnectionParameters extends NetworkConnectionParameters, ClipboardConnectionParameters,
+  RecordingConnectionParameters, TerminalConnectionParameters {
+  scheme: 'kubernetes';
+  'namespace'?: string;
+  'pod': string;
+  'container'?: string;
+  'exec-command'?: string;
+  'use-ssl'?: boolean;
+  'client-cert'?: string;
+  'client-key'?: string;
+  'ca-cert'?: string;
+  'ignore-cert'?: boolean;
+}
+
+/**
+ * The typed parameters of any supported protocol.
+ */
+export type ConnectionParameters = VncConnectionParameters | RdpConnectionParameters | SshConnectionParameters
+  | TelnetConnectionParameters | KubernetesConnectionParameters;
+
+/**
+ * The parameters accepted by RemoteDesktopService.connect(). Untyped objects
+ * are still accepted for parameters specific to a tunnel backend.
+ */
+export type AnyConnectionParameters = ConnectionParameters | { [name: string]: ConnectionParameterValue };
+
+/**
+ * Build the parameters of a VNC connection
+ */
+export function vncParameters(parameters: Omit<VncConnectionParameters, 'scheme'>): VncConnectionParameters {
+  return {...parameters, scheme: 'vnc'};
+}
+
+/**
+ * Build the parameters of an RDP connection
+ */
+export function rdpParameters(parameters: Omit<RdpConnectionParameters, 'scheme'>): RdpConnectionParameters {
+  return {...parameters, scheme: 'rdp'};
+}
+
+/**
+ * Build the parameters of an SSH connection
+ */
+export function sshParameters(parameters: Omit<SshConnectionParameters, 'scheme'>): SshConnectionParameters {
+  return {...parameters, scheme: 'ssh'};
+}
+
+/**
+ * Build the parameters of a Telnet connection
+ */
+export function telnetParameters(parameters: Omit<TelnetConnectionParameters, 'scheme'>): TelnetConnectionParameters {
+  return {...parameters, scheme: 'telnet'};
+}
+
+/**
+ * Build the parameters of a Kubernetes connection
+ */
+export function kubernetesParameters(parameters: Omit<KubernetesConnectionParameters, 'scheme'>): KubernetesConnectionParameters {
+  return {...parameters, scheme: 'kubernetes'};
+}
+
+/**
+ * The type of a parameter: 'string', 'number', 'boolean', or the list of
+ * the allowed values.
+ */
+type ParameterType = 'string' | 'number' | 'boolean' | (string | number)[];
+
+const TUNNEL_SCHEMA: { [name: string]: ParameterType } = {
+  'token': 'string',
+  'key': 'string',
+  'width': 'number',
+  'height': 'number',
+  'dpi': 'number',
+  'hostname': 'string',
+  'port': 'number',
+  'disable-copy': 'boolean',
+  'disable-paste': 'boolean',
+  'recording-path': 'string',
+  'recording-name': 'string',
+  'create-recording-path': 'boolean',
+  'recording-exclude-output': 'boolean',
+  'recording-exclude-mouse': 'boolean',
+  'recording-include-keys': 'boolean',
+};
+
+const SFTP_SCHEMA: { [name: string]: ParameterType } = {
+  'enable-sftp': 'boolean',
+  'sftp-hostname': 'string',
+  'sftp-host-key': 'string',
+  'sftp-port': 'number',
+  'sftp-username': 'string',
+  'sftp-password': 'string',
+  'sftp-private-key': 'string',
+  'sftp-passphrase': 'string',
+  'sftp-directory': 'string',
+  'sftp-root-directory': 'string',
+  'sftp-server-alive-interval': 'number',
+  'sftp-disable-download': 'boolean',
+  'sftp-disable-upload': 'boolean',
+};
+
+const TERMINAL_SCHEMA: { [name: string]: ParameterType } = {
+  'color-scheme': 'string',
+  'font-name': 'string',
+  'font-size': 'number',
+  'scrollback': 'number',
+  'read-only': 'boolean',
+  'backspace': 'number',
+  'terminal-type': 'string',
+  'typescript-path': 'string',
+  'typescript-name': 'string',
+  'create-typescript-path': 'boolean',
+};
+
+const COLOR_DEPTHS = [8, 16, 24, 32];
+
+/**
+ * The known parameters of each protocol, by scheme.
+ */
+const PROTOCOL_SCHEMAS: { [scheme: string]: { [name: string]: ParameterType } } = {
+  vnc: {
+    ...TUNNEL_SCHEMA,
+    ...SFTP_SCHEMA,
+    'username': 'string',
+    'password': 'string',
+    'autoretry': 'number',
+    'color-depth': COLOR_DEPTHS,
+    'swap-red-blue': 'boolean',
+    'cursor': ['local', 'remote'],
+    'encodings': 'string',
+    'read-only': 'boolean',
+    'force-lossless': 'boolean',
+    'dest-host': 'string',
+    'dest-port': 'number',
+    'reverse-connect': 'boolean',
+    'listen-timeout': 'number',
+    'enable-audio': 'boolean',
+    'audio-servername': 'string',
+    'clipboard-encoding': ['ISO8859-1', 'UTF-8', 'UTF-16', 'CP1252'],
+  },
+  rdp: {
+    ...TUNNEL_SCHEMA,
+    ...SFTP_SCHEMA,
+    'username': 'string',
+    'password': 'string',
+    'domain': 'string',
+    'security': ['any', 'nla', 'nla-ext', 'tls', 'vmconnect', 'rdp'],
+    'ignore-cert': 'boolean',
+    'disable-auth': 'boolean',
+    'initial-program': 'string',
+    'color-depth': COLOR_DEPTHS,
+    'resize-method': ['display-update', 'reconnect'],
+    'read-only': 'boolean',
+    'server-layout': 'string',
+    'timezone': 'string',
+    'console': 'boolean',
+    'enable-drive': 'boolean',
+    'drive-name': 'string',
+    'drive-path': 'string',
+    'create-drive-path': 'boolean',
+    'disable-download': 'boolean',
+    'disable-upload': 'boolean',
+    'disable-audio': 'boolean',
+    'enable-audio-input': 'boolean',
+    'enable-printing': 'boolean',
+    'printer-name': 'string',
+    'normalize-clipboard': ['preserve', 'unix', 'windows'],
+    'enable-wallpaper': 'boolean',
+    'enable-theming': 'boolean',
+    'enable-font-smoothing': 'boolean',
+    'enable-full-window-drag': 'boolean',
+    'enable-desktop-composition': 'boolean',
+    'enable-menu-animations': 'boolean',
+  },
+  ssh: {
+    ...TUNNEL_SCHEMA,
+    ...SFTP_SCHEMA,
+    ...TERMINAL_SCHEMA,
+    'host-key': 'string',
+    'username': 'string',
+    'password': 'string',
+    'private-key': 'string',
+    'passphrase': 'string',
+    'command': 'string',
+    'locale': 'string',
+    'timezone': 'string',
+    'server-alive-interval': 'number',
+  },
+  telnet: {
+    ...TUNNEL_SCHEMA,
+    ...TERMINAL_SCHEMA,
+    'username': 'string',
+    'password': 'string',
+    'username-regex': 'string',
+    'password-regex': 'string',
+    'login-success-regex': 'string',
+    'login-failure-regex': 'string',
+  },
+  kubernetes: {
+    ...TUNNEL_SCHEMA,
+    ...TERMINAL_SCHEMA,
+    'namespace': 'string',
+    'pod': 'string',
+    'container': 'string',
+    'exec-command': 'string',
+    'use-ssl': 'boolean',
+    'client-cert': 'string',
+    'client-key': 'string',
+    'ca-cert': 'string',
+    'ignore-cert': 'boolean',
+  },
+};
+
+/**
+ * The parameters which must be given for each protocol.
+ */
+const REQUIRED_PARAMETERS: { [scheme: string]: string[] } = {
+  vnc: ['hostname'],
+  rdp: ['hostname'],
+  ssh: ['hostname'],
+  telnet: ['hostname'],
+  kubernetes: ['hostname', 'pod'],
+};
+
+/**
+ * Reduces a parameter name to a form where "enable_sftp", "enableSftp" and
+ * "Enable-SFTP" all match "enable-sftp".
+ */
+function normalizeName(name: string): string {
+  return name.replace(/[-_\s]/g, '').toLowerCase();
+}
+
+/**
+ * Checks the given value against the type of a parameter.
+ *
+ * @returns
+ *     A description of the problem, or null if the value is valid.
+ */
+function checkValue(name: string, value: ConnectionParameterValue, type: ParameterType): string {
+  if (Array.isArray(type)) {
+    if (type.map(String).indexOf(String(value)) === -1) {
+      return `Parameter '${name}' must be one of ${type.join(', ')}, got '${value}'`;
+    }
+    return null;
+  }
+  switch (type) {
+    case 'boolean':
+      if (typeof value !== 'boolean' && value !== 'true' && value !== 'false') {
+        return `Parameter '${name}' must be a boolean, got '${value}'`;
+      }
+      return null;
+    case 'number':
+      if (typeof value === 'boolean' || value === '' || !isFinite(Number(value))) {
+        return `Parameter '${name}' must be a number, got '${value}'`;
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates the given connection parameters before they are sent to the
+ * tunnel. Parameters of unknown protocols, as well as parameters unknown to
+ * the protocol which are not misspellings of known ones, are left alone since
+ * they may be meaningful to the tunnel backend.
+ *
+ * @param parameters
+ *     The connection parameters to validate.
+ *
+ * @throws Error
+ *     If any parameter is missing, misspelt or has a value of the wrong type.
+ */
+export function validateConnectionParameters(parameters: AnyConnectionParameters): void {
+  const scheme = parameters['scheme'];
+  const schema = PROTOCOL_SCHEMAS[scheme as string];
+  if (!schema) {
+    return;
+  }
+
+  const problems: string[] = [];
+  const knownNames = Object.keys(schema);
+
+  for (const required of REQUIRED_PARAMETERS[scheme as string]) {
+    const value = parameters[required];
+    if (value === undefined || value === null || value === '') {
+      problems.push(`Parameter '${required}' is required for ${scheme} connections`);
+    }
+  }
+
+  for (const name of Object.keys(parameters)) {
+    const value = parameters[name];
+    if (name === 'scheme' || value === undefined || value === null) {
+      continue;
+    }
+
+    const type = schema[name];
+    if (!type) {
+      const match = knownNames.find(known => normalizeName(known) === normalizeName(name));
+      if (match) {
+        problems.push(`Unknown parameter '${name}', did you mean '${match}'?`);
+      }
+      continue;
+    }
+
+    const problem = checkValue(name, value, type);
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  const port = parameters['port'];
+  if (port !== undefined && port !== null && (Number(port) < 1 || Number(port) > 65535)) {
+    problems.push(`Parameter 'port' must be between 1 and 65535, got '${port}'`);
+  }
+
+  if (problems.length) {
+    throw new Error('Invalid connection parameters: ' + problems.join('; '));
+  }
+}
+
+/**
+ * Converts the given connection parameters to the strings sent to the
+ * tunnel, leaving out the parameters without a value.
+ *
+ * @param parameters
+ *     The connection parameters to serialise.
+ */
+export function serializeConnectionParameters(parameters: AnyConnectionParameters): { [name: string]: string } {
+  const serialized = {};
+  for (const name of Object.keys(parameters)) {
+    const value = parameters[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    serialized[name] = String(value);
+  }
+  return serialized;
+}
@@ -0,0 +1,199 @@
+/**
+ * Valid connection quality strings, from the best to the worst.
+ */
+export const ConnectionQuality = {
+  /**
+   * Frames arrive on time.
+   */
+  GOOD: 'GOOD',
+
+  /**
+   * Frames are noticeably delayed.
+   */
+  DEGRADED: 'DEGRADED',
+
+  /**
+   * Frames are so delayed that the remote desktop is barely usable.
+   */
+  POOR: 'POOR',
+};
+
+/**
+ * A snapshot of the connection quality, measured over the last sampling period.
+ */
+export interface ConnectionStats {
+  /**
+   * The relative frame delay in milliseconds, or null until a frame has been
+   * received. Derived from the sync timestamps of the server: it is how
+   * much later the latest frame arrived compared with the fastest frame
+   * ever received, so it grows as the connection falls behind.
+   *
+   * This is not the round-trip latency, which the Guacamole protocol gives
+   * no way to measure: a link with a steady latency, however high, has no
+   * frame delay. It only reveals a connection getting slower than it was.
+   */
+  frameDelay: number;
+
+  /**
+   * The bytes received from the server per second.
+   */
+  inboundBytesPerSecond: number;
+
+  /**
+   * The bytes sent to the server per second.
+   */
+  outboundBytesPerSecond: number;
+
+  /**
+   * The instructions received from the server per second.
+   */
+  instructionsPerSecond: number;
+
+  /**
+   * The frames received from the server per second.
+   */
+  framesPerSecond: number;
+
+  /**
+   * The overall quality, as listed within ConnectionQuality, graded from
+   * the relative frame delay.
+   */
+  quality: string;
+}
+
+/**
+ * Frame delay thresholds in milliseconds above which the connection quality drops.
+ */
+const DEGRADED_FRAME_DELAY = 150;
+const POOR_FRAME_DELAY = 500;
+
+/**
+ * Returns the number of bytes taken by the given instruction once encoded
+ * with the Guacamole protocol, e.g. "4.sync,8.12345678;".
+ *
+ * @param elements
+ *     The opcode followed by the arguments of the instruction.
+ */
+function getInstructionLength(elements: any[]): number {
+  let length = 0;
+  for (const element of elements) {
+    const value = String(element);
+    length += String(value.length).length + value.length + 2;
+  }
+  return length;
+}
+
+/**
+ * Accumulates the traffic of a connection and turns it into ConnectionStats
+ * each time it is sampled.
+ */
+export class ConnectionStatsMonitor {
+  private inboundBytes = 0;
+  private outboundBytes = 0;
+  private instructions = 0;
+  private frames = 0;
+
+  /**
+   * The local time of the last sample
+   */
+  private lastSample = Date.now();
+
+  /**
+   * The smallest difference ever observed between the local arrival time
+   * and the server timestamp of a sync, i.e. the fastest frame
+   */
+  private baselineOffset: number = null;
+
+  /**
+   * The difference between the local arrival time and the server timestamp
+   * of the latest sync
+   */
+  private lastOffset: number = null;
+
+  /**
+   * Accounts for an instruction received from the server.
+   *
+   * @param opcode
+   *     The opcode of the instruction.
+   *
+   * @param parameters
+   *     The arguments of the instruction.
+   */
+  recordInbound(opcode: string, parameters: any[]): void {
+    this.inboundBytes += getInstructionLength([opcode, ...(parameters || [])]);
+    this.instructions++;
+
+    if (opcode === 'sync') {
+      this.recordSync(parseInt(parameters[0], 10));
+    }
+  }
+
+  /**
+   * Accounts for an instruction sent to the server.
+   *
+   * @param elements
+   *     The opcode followed by the arguments of the instruction.
+   */
+  recordOutbound(elements: any[]): void {
+    this.outboundBytes += getInstructionLength(elements);
+  }
+
+  /**
+   * Computes the statistics since the previous sample and starts a new
+   * sampling period.
+   */
+  sample(): ConnectionStats {
+    const now = Date.now();
+    const seconds = Math.max(now - this.lastSample, 1) / 1000;
+
+    const frameDelay = this.lastOffset === null ? null : this.lastOffset - this.baselineOffset;
+
+    const stats: ConnectionStats = {
+      frameDelay,
+      inboundBytesPerSecond: Math.round(this.inboundBytes / seconds),
+      outboundBytesPerSecond: Math.round(this.outboundBytes / seconds),
+      instructionsPerSecond: Math.round(this.instructions / seconds),
+      framesPerSecond: Math.round(this.frames / seconds),
+      quality: ConnectionStatsMonitor.getQuality(frameDelay),
+    };
+
+    this.inboundBytes = this.outboundBytes = this.instructions = this.frames = 0;
+    this.lastSample = now;
+    return stats;
+  }
+
+  /**
+   * Updates the frame delay from the timestamp of a sync instruction
+   *
+   * @param timestamp
+   *     The server timestamp of the sync, in milliseconds.
+   */
+  private recordSync(timestamp: number): void {
+    if (isNaN(timestamp)) {
+      return;
+    }
+    this.frames++;
+
+    const offset = Date.now() - timestamp;
+    if (this.baselineOffset === null || offset < this.baselineOffset) {
+      this.baselineOffset = offset;
+    }
+    this.lastOffset = offset;
+  }
+
+  /**
+   * Grades the given frame delay
+   *
+   * @param frameDelay
+   *     The relative frame delay in milliseconds, or null if unknown.
+   */
+  private static getQuality(frameDelay: number): string {
+    if (frameDelay === null || frameDelay < DEGRADED_FRAME_DELAY) {
+      return ConnectionQuality.GOOD;
+    }
+    if (frameDelay < POOR_FRAME_DELAY) {
+      return ConnectionQuality.DEGRADED;
+    }
+    return ConnectionQuality.POOR;
+  }
+}
@@ -0,0 +1,60 @@
+import {Component, Input} from '@angular/core';
+import {RemoteDesktopService} from '../remote-desktop.service';
+
+/**
+ * Widget showing the connection quality of a session, meant to be placed in
+ * a status bar item:
+ *
+ *   <ngx-remote-desktop-status-bar-item>
+ *     <ngx-remote-desktop-connection-stats></ngx-remote-desktop-connection-stats>
+ *   </ngx-remote-desktop-status-bar-item>
+ */
+@Component({
+  selector: 'ngx-remote-desktop-connection-stats',
+  template: `
+    <ng-container *ngIf="manager.onConnectionStats | async as stats">
+      <i
+        class="ngx-remote-desktop-connection-quality"
+        [class.ngx-remote-desktop-connection-quality-good]="stats.quality === 'GOOD'"
+        [class.ngx-remote-desktop-connection-quality-degraded]="stats.quality === 'DEGRADED'"
+        [class.ngx-remote-desktop-connection-quality-poor]="stats.quality === 'POOR'"
+        [title]="stats.quality | titlecase"
+      ></i>
+      <span *ngIf="stats.frameDelay !== null" title="Frame delay">{{ stats.frameDelay }} ms</span>
+      <span title="Received">&darr; {{ formatRate(stats.inboundBytesPerSecond) }}</span>
+      <span title="Sent">&uarr; {{ formatRate(stats.outboundBytesPerSecond) }}</span>
+      <span>{{ stats.framesPerSecond }} fps</span>
+    </ng-container>
+  `,
+  host: {
+    class: 'ngx-remote-desktop-connection-stats',
+  },
+})
+export class ConnectionStatsComponent {
+  /**
+   * The session to monitor. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session) {
+      this.manager = session;
+    }
+  }
+
+  constructor(public manager: RemoteDesktopService) {
+  }
+
+  /**
+   * Format a transfer rate with the most appropriate unit
+   * @param bytes The number of bytes per second
+   */
+  public formatRate(bytes: number): string {
+    if (bytes > 1000000) {
+      return (bytes / 1000000).toFixed(1) + ' MB/s';
+    }
+    if (bytes > 1000) {
+      return (bytes / 1000).toFixed(1) + ' KB/s';
+    }
+    return bytes + ' B/s';
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Valid cursor mode strings.
+ */
+export const CursorMode = {
+  /**
+   * The cursor image provided by the remote desktop replaces the local
+   * pointer, which follows the mouse without waiting for the remote desktop.
+   * The cursor drawn by the display is only shown where there is no local
+   * pointer, i.e. with the touchpad or while the pointer is locked.
+   */
+  LOCAL: 'local',
+
+  /**
+   * The local pointer is hidden and the cursor is only drawn by the display,
+   * where the remote desktop reports it.
+   */
+  REMOTE: 'remote',
+
+  /**
+   * The cursor image provided by the remote desktop replaces the local
+   * pointer, and the display draws the cursor where the remote desktop
+   * reports it as well.
+   */
+  BOTH: 'both',
+
+  /**
+   * No cursor is shown at all, e.g. for view-only sessions.
+   */
+  NONE: 'none',
+};
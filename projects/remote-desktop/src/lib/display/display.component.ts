@@ -3,6 +3,7 @@ import {
   ChangeDetectionStrategy,
   Component,
   ElementRef,
+  HostBinding,
   HostListener,
   Input,
   OnDestroy,
@@ -14,6 +15,11 @@ import {
 import {Client, Display, Keyboard, Mouse} from '@raytecvision/guacamole-common-js';
 import {BehaviorSubject, Subscription} from 'rxjs';
 import {RemoteDesktopService} from '../remote-desktop.service';
+import {ScaleMode} from '../scale-mode';
+import {InputMode, InputPreferences} from '../input-mode';
+import {CursorMode} from '../cursor-mode';
+import {isImageMimetype} from '../clipboard-data';
+import '../guacamole-typings';
 
 @Component({
   selector: 'ngx-remote-desktop-display',
@@ -38,6 +44,48 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
   @Input()
   public manager: RemoteDesktopService;
 
+  /**
+   * Remote desktop session, alias of manager
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    this.manager = session;
+  }
+
+  /**
+   * How the remote desktop is scaled, as listed within ScaleMode.
+   * Zooming through the remote desktop service overrides it.
+   */
+  @Input()
+  public scaleMode = ScaleMode.FIT;
+
+  /**
+   * The zoom percentage used by the zoom scale mode
+   */
+  @Input()
+  public zoom = 100;
+
+  /**
+   * Whether dragging pans the viewport instead of being sent to the remote desktop
+   */
+  @Input()
+  @HostBinding('class.ngx-remote-desktop-viewport-panning')
+  public panning = false;
+
+  /**
+   * Whether clicking the display locks the pointer to it, so that the mouse
+   * moves the remote cursor relatively, e.g. for 3D applications or games.
+   * The pointer can also be locked through the remote desktop service.
+   */
+  @Input()
+  public pointerLock = false;
+
+  /**
+   * How the cursor is shown, as listed within CursorMode
+   */
+  @Input()
+  public cursorMode = CursorMode.LOCAL;
+
   @ViewChild('display', { static: true})
   private display: ElementRef;
 
@@ -51,12 +99,70 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
    */
   private mouse: Mouse;
   private touch: Mouse.Touchscreen;
+  private touchpad: Mouse.Touchpad;
+
+  /**
+   * The element wrapping the display while the session is controlled, which the
+   * mouse and touch inputs listen to. Guacamole never removes its listeners, so
+   * the element is dropped along with the inputs once the session is view-only.
+   */
+  private inputElement: HTMLElement = null;
+
+  /**
+   * The touch input mode in use, as listed within InputMode
+   */
+  private inputMode = InputMode.TOUCHSCREEN;
+
+  /**
+   * The last state of the touchpad, to tell drags from taps
+   */
+  private touchpadState: Mouse.State = null;
+
+  /**
+   * Whether the left button of the touchpad is held and the cursor moved since
+   */
+  private dragging = false;
+
+  /**
+   * Whether the left button is kept held after a drag, until the next tap
+   */
+  private dragLocked = false;
+
+  /**
+   * Whether the tap releasing the drag lock is in progress, and must not click
+   */
+  private releasingDragLock = false;
 
   /**
    * Subscriptions
    */
   private subscriptions: Subscription[] = [];
 
+  /**
+   * The position of the remote cursor while the pointer is locked, in remote desktop pixels
+   */
+  private lockedPosition: { x: number, y: number } = null;
+
+  /**
+   * The mouse buttons last sent while the pointer is locked
+   */
+  private lockedButtons: Mouse.State = null;
+
+  /**
+   * The CSS cursor made of the cursor image provided by the remote desktop
+   */
+  private remoteCursor: string = null;
+
+  /**
+   * The CSS cursor and the visibility of the display cursor last applied
+   */
+  private appliedCursor: { style: string, shown: boolean } = null;
+
+  /**
+   * The viewport-relative position of the pointer when panning, null unless dragging
+   */
+  private panPosition: { x: number, y: number } = null;
+
   constructor(
     private viewport: ElementRef,
     private renderer: Renderer2,
@@ -75,13 +181,23 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
    * Unbind all display input listeners when destroying the component
    */
   ngOnDestroy(): void {
+      if (this.isPointerLocked()) {
+          document.exitPointerLock();
+      }
+      this.getDisplay().oncursor = null;
+      this.dropDisplayInputs();
       this.removeDisplay();
-      this.removeDisplayInputListeners();
       this.unbindSubscriptions();
   }
 
+  /**
+   * Keep up with any change of the viewport size, e.g. when toggling the
+   * full screen mode or the file manager
+   */
   ngAfterViewChecked(): void {
+      this.requestRemoteResize();
       this.setDisplayScale();
+      this.applyCursor();
   }
 
   /**
@@ -90,6 +206,10 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
   private bindSubscriptions(): void {
       this.subscriptions.push(this.manager.onKeyboardReset.subscribe(_ => this.resetKeyboard()));
       this.subscriptions.push(this.manager.onFocused.subscribe(this.handleFocused.bind(this)));
+      this.subscriptions.push(this.manager.onZoom.subscribe(_ => this.setDisplayScale()));
+      this.subscriptions.push(this.manager.onInputPreferences.subscribe(this.handleInputPreferences.bind(this)));
+      this.subscriptions.push(this.manager.onPointerLock.subscribe(this.handlePointerLock.bind(this)));
+      this.subscriptions.push(this.manager.onReadOnly.subscribe(this.handleReadOnly.bind(this)));
   }
 
   /**
@@ -105,11 +225,126 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
   private handleFocused(newFocused: boolean): void {
       if (newFocused) {
           this.bindDisplayInputListeners();
+          this.manager.syncLocalClipboard();
       } else {
           this.removeDisplayInputListeners();
       }
   }
 
+  /**
+   * Drop the keyboard, mouse and touch inputs while the session is view-only,
+   * and create them again once given back control
+   * @param readOnly
+   */
+  private handleReadOnly(readOnly: boolean): void {
+      if (readOnly) {
+          this.dropDisplayInputs();
+          return;
+      }
+      if (!this.inputElement) {
+          this.createDisplayInputs();
+      }
+      if (this.manager.onFocused.getValue()) {
+          this.bindDisplayInputListeners();
+      }
+  }
+
+  /**
+   * Switch between the touchscreen and touchpad modes
+   * @param preferences
+   */
+  private handleInputPreferences(preferences: InputPreferences): void {
+      if (!preferences.dragLock) {
+          this.releaseDragLock();
+      }
+      if (preferences.mode === this.inputMode) {
+          return;
+      }
+      this.releaseDragLock();
+      this.inputMode = preferences.mode;
+      if (this.inputMode === InputMode.TOUCHPAD) {
+          this.startTouchpad();
+      }
+      this.applyCursor();
+      if (this.manager.onFocused.getValue()) {
+          this.bindDisplayInputListeners();
+      }
+  }
+
+  /**
+   * Lock or release the pointer as requested through the remote desktop service
+   * @param locked
+   */
+  private handlePointerLock(locked: boolean): void {
+      const element = this.getDisplay().getElement();
+      if (locked && !this.isPointerLocked()) {
+          if (typeof element.requestPointerLock !== 'function') {
+              this.manager.setPointerLock(false);
+              return;
+          }
+          element.requestPointerLock();
+      } else if (!locked && this.isPointerLocked()) {
+          document.exitPointerLock();
+      }
+  }
+
+  /**
+   * Follow the browser when it locks or releases the pointer, e.g. when the
+   * user presses Escape
+   */
+  @HostListener('document:pointerlockchange')
+  private onPointerLockChange(): void {
+      const locked = this.isPointerLocked();
+      if (locked) {
+          const display = this.getDisplay();
+          this.lockedPosition = {x: display.cursorX || 0, y: display.cursorY || 0};
+          this.lockedButtons = null;
+      } else {
+          this.lockedPosition = null;
+      }
+      this.applyCursor();
+      if (locked !== this.manager.isPointerLocked()) {
+          this.manager.setPointerLock(locked);
+      }
+  }
+
+  /**
+   * Report that the pointer could not be locked
+   */
+  @HostListener('document:pointerlockerror')
+  private onPointerLockError(): void {
+      this.manager.setPointerLock(false);
+  }
+
+  /**
+   * Move the remote cursor by the distance the locked pointer moved
+   * @param event
+   */
+  @HostListener('document:mousemove', ['$event'])
+  private onLockedPointerMove(event: MouseEvent): void {
+      if (!this.lockedPosition || !this.isPointerLocked()) {
+          return;
+      }
+      this.manager.reportActivity();
+      const display = this.getDisplay();
+      const scale = display.getScale();
+      this.lockedPosition = {
+          x: Math.min(Math.max(this.lockedPosition.x + event.movementX / scale, 0), display.getWidth() - 1),
+          y: Math.min(Math.max(this.lockedPosition.y + event.movementY / scale, 0), display.getHeight() - 1),
+      };
+      this.sendLockedMouseState(this.lockedButtons);
+  }
+
+  /**
+   * Lock the pointer when clicking the display, if enabled
+   */
+  @HostListener('click')
+  private onClick(): void {
+      if (this.pointerLock && !this.manager.isPointerLocked()) {
+          this.manager.setPointerLock(true);
+      }
+  }
+
   /**
    * Release all the keyboards when the window loses focus
    * @param event
@@ -119,12 +354,41 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
       this.resetKeyboard();
   }
 
+  /**
+   * Send the local clipboard, which may have changed meanwhile, when the window gains focus
+   */
+  @HostListener('window:focus')
+  private onWindowFocus(): void {
+      if (this.manager.onFocused.getValue()) {
+          this.manager.syncLocalClipboard();
+      }
+  }
+
+  /**
+   * Send the pasted image or text, which needs no clipboard permission
+   * @param event
+   */
+  @HostListener('document:paste', ['$event'])
+  private onDocumentPaste(event: ClipboardEvent): void {
+      if (!this.manager.onFocused.getValue() || !event.clipboardData) {
+          return;
+      }
+      const image = Array.from(event.clipboardData.files).find(file => isImageMimetype(file.type));
+      const text = event.clipboardData.getData('text/plain');
+      if (!text && image) {
+          this.manager.syncLocalClipboard({mimetype: image.type, data: image});
+      } else {
+          this.manager.syncLocalClipboard({mimetype: 'text/plain', data: text});
+      }
+  }
+
   /**
    * Resize the display scale when the window is resized
    * @param event
    */
   @HostListener('window:resize', ['$event'])
   private onWindowResize(event: any): void {
+      this.requestRemoteResize();
       this.setDisplayScale();
   }
 
@@ -133,17 +397,90 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
    */
   private createDisplayCanvas(): void {
       this.createDisplay();
-      this.createDisplayInputs();
+      this.inputMode = this.manager.getInputMode();
+      if (!this.manager.isReadOnly()) {
+          this.createDisplayInputs();
+      }
+      this.createCursor();
       this.bindDisplayInputListeners();
   }
 
+  /**
+   * Follow the cursor image provided by the remote desktop, starting with the
+   * one it already provided before the display was shown
+   */
+  private createCursor(): void {
+      const display = this.getDisplay();
+      const cursor = display.getCursorLayer();
+      if (cursor.width && cursor.height) {
+          this.setRemoteCursor(cursor.toCanvas(), display.cursorHotspotX, display.cursorHotspotY);
+      }
+      display.oncursor = this.setRemoteCursor.bind(this);
+  }
+
+  /**
+   * Use the given cursor image for the local pointer
+   * @param canvas The cursor image
+   * @param x The X-coordinate of the cursor hotspot
+   * @param y The Y-coordinate of the cursor hotspot
+   */
+  private setRemoteCursor(canvas: HTMLCanvasElement, x: number, y: number): void {
+      this.remoteCursor = `url(${canvas.toDataURL('image/png')}) ${x} ${y}, auto`;
+      this.applyCursor();
+  }
+
+  /**
+   * Show the local pointer and the cursor drawn by the display according to
+   * the cursor mode. The local pointer is left to the viewport while panning.
+   */
+  private applyCursor(): void {
+      const mode = this.cursorMode;
+      const local = mode === CursorMode.LOCAL || mode === CursorMode.BOTH;
+      const style = this.panning ? null : local ? this.remoteCursor : 'none';
+      const shown = mode === CursorMode.REMOTE || mode === CursorMode.BOTH ||
+          (mode === CursorMode.LOCAL && (this.inputMode === InputMode.TOUCHPAD || !!this.lockedPosition));
+      const applied = this.appliedCursor;
+      if (applied && applied.style === style && applied.shown === shown) {
+          return;
+      }
+      const display = this.getDisplay();
+      if (style) {
+          this.renderer.setStyle(display.getElement(), 'cursor', style);
+      } else {
+          this.renderer.removeStyle(display.getElement(), 'cursor');
+      }
+      display.showCursor(shown);
+      this.appliedCursor = {style, shown};
+  }
+
   /**
    * Get the remote desktop display and set the scale
    */
   private setDisplayScale() {
       const display = this.getDisplay();
+      if (!display.getWidth() || !display.getHeight()) {
+          return;
+      }
       const scale = this.calculateDisplayScale(display);
-      display.scale(scale);
+      if (scale !== display.getScale()) {
+          display.scale(scale);
+      }
+  }
+
+  /**
+   * Whether the display may be larger than the viewport, in which case the viewport scrolls
+   */
+  @HostBinding('class.ngx-remote-desktop-viewport-scrollable')
+  get scrollable(): boolean {
+      return this.manager.getZoom() !== null || this.scaleMode !== ScaleMode.FIT;
+  }
+
+  /**
+   * Ask for the remote desktop to be resized to the viewport, if enabled by the resize policy
+   */
+  private requestRemoteResize(): void {
+      const viewportElement = this.viewport.nativeElement;
+      this.manager.requestRemoteResize(viewportElement.clientWidth, viewportElement.clientHeight);
   }
 
   /**
@@ -165,9 +502,21 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
    */
   private calculateDisplayScale(display: Display): number {
       const viewportElement = this.viewport.nativeElement;
-      const scale = Math.min(viewportElement.clientWidth / display.getWidth(),
-          viewportElement.clientHeight / display.getHeight());
-      return scale;
+      const zoom = this.manager.getZoom();
+      if (zoom !== null) {
+          return zoom;
+      }
+      switch (this.scaleMode) {
+          case ScaleMode.ORIGINAL:
+              return 1;
+          case ScaleMode.ZOOM:
+              return this.zoom / 100;
+          case ScaleMode.FILL_WIDTH:
+              return viewportElement.clientWidth / display.getWidth();
+          default:
+              return Math.min(viewportElement.clientWidth / display.getWidth(),
+                  viewportElement.clientHeight / display.getHeight());
+      }
   }
 
   /**
@@ -189,12 +538,20 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
   }
 
   /**
-   * Bind input listeners for keyboard and mouse
+   * Bind input listeners for keyboard and mouse, unless the session is view-only
    */
   private bindDisplayInputListeners(): void {
       this.removeDisplayInputListeners();
-      this.touch.onmousedown = this.touch.onmousemove = this.touch.onmouseup =
+      if (this.manager.isReadOnly() || !this.inputElement) {
+          return;
+      }
       this.mouse.onmousedown = this.mouse.onmouseup = this.mouse.onmousemove = this.handleMouseState.bind(this);
+      if (this.inputMode === InputMode.TOUCHPAD) {
+          this.touchpad.onmousedown = this.touchpad.onmouseup = this.touchpad.onmousemove =
+              this.handleTouchpadState.bind(this);
+      } else {
+          this.touch.onmousedown = this.touch.onmousemove = this.touch.onmouseup = this.handleMouseState.bind(this);
+      }
       this.keyboard.onkeyup = this.handleKeyUp.bind(this);
       this.keyboard.onkeydown = this.handleKeyDown.bind(this);
   }
@@ -213,28 +570,69 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
       if (this.touch) {
           this.touch.onmousedown = this.touch.onmouseup = this.touch.onmousemove = null;
       }
+      if (this.touchpad) {
+          this.touchpad.onmousedown = this.touchpad.onmouseup = this.touchpad.onmousemove = null;
+      }
   }
 
   /**
-   * Create the keyboard and mouse inputs
+   * Create the keyboard and mouse inputs, the mouse and touch ones listening to
+   * a new element wrapping the display
    */
   private createDisplayInputs(): void {
-      const display = this.display.nativeElement.children[0];
-      this.mouse = new Mouse(display);
-      this.touch = new Mouse.Touchscreen(display);
+      const element = this.renderer.createElement('div');
+      this.renderer.appendChild(this.display.nativeElement, element);
+      this.renderer.appendChild(element, this.getDisplay().getElement());
+      this.inputElement = element;
+      this.mouse = new Mouse(element);
+      this.touch = new Mouse.Touchscreen(element);
+      this.touchpad = new Mouse.Touchpad(element);
+      if (this.inputMode === InputMode.TOUCHPAD) {
+          this.startTouchpad();
+      }
       this.keyboard = new Keyboard(window.document);
   }
 
+  /**
+   * Drop the keyboard and mouse inputs, along with the element the mouse and
+   * touch ones listen to. The keyboard ignores the document events once its
+   * handlers are removed.
+   */
+  private dropDisplayInputs(): void {
+      this.removeDisplayInputListeners();
+      if (this.inputElement) {
+          this.renderer.appendChild(this.display.nativeElement, this.getDisplay().getElement());
+          this.renderer.removeChild(this.display.nativeElement, this.inputElement);
+          this.inputElement = null;
+      }
+      this.keyboard = null;
+      this.mouse = null;
+      this.touch = null;
+      this.touchpad = null;
+      this.touchpadState = null;
+  }
+
   /**
    * Send mouse events to the remote desktop
    * @param mouseState
    */
   private handleMouseState(mouseState: any): void {
+      this.manager.reportActivity();
+      if (this.lockedPosition) {
+          this.handleLockedMouseState(mouseState);
+          return;
+      }
+      const position = this.getClientPosition(mouseState);
+      if (this.panning) {
+          this.handlePan(mouseState, position);
+          return;
+      }
       const display = this.getDisplay();
       const scale = display.getScale();
+      const bounds = display.getElement().getBoundingClientRect();
       const scaledState = new Mouse.State(
-          mouseState.x / scale,
-          mouseState.y / scale,
+          (position.x - bounds.left) / scale,
+          (position.y - bounds.top) / scale,
           mouseState.left,
           mouseState.middle,
           mouseState.right,
@@ -244,6 +642,160 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
       this.onMouseMove.next(mouseState);
   }
 
+  /**
+   * Send the buttons of the locked pointer, whose position is meaningless
+   * @param mouseState
+   */
+  private handleLockedMouseState(mouseState: Mouse.State): void {
+      const buttons = this.lockedButtons;
+      if (buttons && buttons.left === mouseState.left && buttons.middle === mouseState.middle &&
+          buttons.right === mouseState.right && buttons.up === mouseState.up && buttons.down === mouseState.down) {
+          return;
+      }
+      this.lockedButtons = new Mouse.State(0, 0, mouseState.left, mouseState.middle, mouseState.right,
+          mouseState.up, mouseState.down);
+      this.sendLockedMouseState(this.lockedButtons);
+  }
+
+  /**
+   * Send the emulated position of the locked pointer with the given buttons
+   * @param buttons
+   */
+  private sendLockedMouseState(buttons: Mouse.State): void {
+      this.getClient().sendMouseState(new Mouse.State(
+          this.lockedPosition.x,
+          this.lockedPosition.y,
+          !!buttons && buttons.left,
+          !!buttons && buttons.middle,
+          !!buttons && buttons.right,
+          !!buttons && buttons.up,
+          !!buttons && buttons.down));
+  }
+
+  /**
+   * Whether the pointer is locked to the display
+   */
+  private isPointerLocked(): boolean {
+      return document.pointerLockElement === this.getDisplay().getElement();
+  }
+
+  /**
+   * Send touchpad events to the remote desktop. The touchpad moves the cursor
+   * relatively, within the display element.
+   * @param touchpadState
+   */
+  private handleTouchpadState(touchpadState: Mouse.State): void {
+      this.manager.reportActivity();
+      const left = this.applyDragLock(touchpadState);
+      if (left === null) {
+          return;
+      }
+      const scale = this.getDisplay().getScale();
+      const scaledState = new Mouse.State(
+          touchpadState.x / scale,
+          touchpadState.y / scale,
+          left,
+          touchpadState.middle,
+          touchpadState.right,
+          touchpadState.up,
+          touchpadState.down);
+      this.getClient().sendMouseState(scaledState);
+  }
+
+  /**
+   * Keep the left button held after a drag when the drag lock is enabled,
+   * until the next tap, which releases it without clicking
+   * @param touchpadState
+   * @returns Whether the left button is held, or null if the event must not be sent
+   */
+  private applyDragLock(touchpadState: Mouse.State): boolean {
+      const previous = this.touchpadState;
+      this.touchpadState = new Mouse.State(touchpadState.x, touchpadState.y, touchpadState.left,
+          touchpadState.middle, touchpadState.right, touchpadState.up, touchpadState.down);
+
+      if (this.releasingDragLock) {
+          this.releasingDragLock = touchpadState.left;
+          return null;
+      }
+      if (this.dragLocked) {
+          if (!touchpadState.left) {
+              return true;
+          }
+          this.dragLocked = false;
+          this.releasingDragLock = true;
+          return false;
+      }
+
+      const moved = previous && (previous.x !== touchpadState.x || previous.y !== touchpadState.y);
+      if (touchpadState.left) {
+          this.dragging = this.dragging || (previous && previous.left && moved);
+          return true;
+      }
+      const dragged = this.dragging;
+      this.dragging = false;
+      if (dragged && this.manager.isDragLockEnabled()) {
+          this.dragLocked = true;
+          return true;
+      }
+      return false;
+  }
+
+  /**
+   * Release the left button if the drag lock keeps it held
+   */
+  private releaseDragLock(): void {
+      const locked = this.dragLocked;
+      this.dragLocked = this.dragging = this.releasingDragLock = false;
+      if (locked && this.touchpadState) {
+          this.handleTouchpadState(this.touchpadState);
+      }
+  }
+
+  /**
+   * Start the touchpad where the cursor currently is
+   */
+  private startTouchpad(): void {
+      if (!this.touchpad) {
+          return;
+      }
+      const display = this.getDisplay();
+      const scale = display.getScale();
+      this.touchpad.currentState.x = (display.cursorX || 0) * scale;
+      this.touchpad.currentState.y = (display.cursorY || 0) * scale;
+      this.touchpadState = null;
+  }
+
+  /**
+   * Get the viewport-relative position of the given mouse state.
+   * The position computed by Guacamole ignores the scroll offsets of the
+   * ancestors which are not offset parents, so it is rebuilt from the
+   * position Guacamole gives to the origin of the viewport.
+   * @param mouseState
+   */
+  private getClientPosition(mouseState: any): { x: number, y: number } {
+      const origin = new Mouse.State(0, 0, false, false, false, false, false);
+      origin.fromClientPosition(this.getDisplay().getElement(), 0, 0);
+      return {x: mouseState.x - origin.x, y: mouseState.y - origin.y};
+  }
+
+  /**
+   * Scroll the viewport by the distance the pointer is dragged
+   * @param mouseState
+   * @param position The viewport-relative position of the pointer
+   */
+  private handlePan(mouseState: any, position: { x: number, y: number }): void {
+      if (!mouseState.left) {
+          this.panPosition = null;
+          return;
+      }
+      if (this.panPosition) {
+          const viewportElement = this.viewport.nativeElement;
+          viewportElement.scrollLeft -= position.x - this.panPosition.x;
+          viewportElement.scrollTop -= position.y - this.panPosition.y;
+      }
+      this.panPosition = position;
+  }
+
   /**
    * Resetting the keyboard will release all keys
    */
@@ -258,7 +810,8 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
    * @param key
    */
   private handleKeyDown(key: any): void {
-      this.getClient().sendKeyEvent(1, key);
+      this.manager.reportActivity();
+      this.manager.handleKeyEvent(true, key);
   }
 
   /**
@@ -266,7 +819,8 @@ export class DisplayComponent implements OnInit, OnDestroy, AfterViewChecked {
    * @param key
    */
   private handleKeyUp(key: any): void {
-      this.getClient().sendKeyEvent(0, key);
+      this.manager.reportActivity();
+      this.manager.handleKeyEvent(false, key);
   }
 
 }
@@ -1,4 +1,4 @@
-import {Component, ElementRef, OnDestroy, OnInit, ViewChild} from '@angular/core';
+import {Component, ElementRef, Input, OnDestroy, OnInit, ViewChild} from '@angular/core';
 import {RemoteDesktopService} from '../remote-desktop.service';
 import {File, FileType, ManagedFilesystem} from '../managed-filesystem';
 import {ManagedFilesystemService} from '../managed-filesystem.service';
@@ -22,6 +22,16 @@ export class FileManagerComponent implements OnInit, OnDestroy {
 
   @ViewChild('fileInput') fileInput: ElementRef;
 
+  /**
+   * The session whose filesystems are shown. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session) {
+      this.manager = session;
+    }
+  }
+
   constructor(
     public manager: RemoteDesktopService,
     private fsService: ManagedFilesystemService,
@@ -1,4 +1,4 @@
-import {Component, OnInit} from '@angular/core';
+import {Component, Input, OnInit} from '@angular/core';
 import {RemoteDesktopService} from '../remote-desktop.service';
 
 @Component({
@@ -8,6 +8,16 @@ import {RemoteDesktopService} from '../remote-desktop.service';
 })
 export class FileTransferManagerComponent implements OnInit {
 
+  /**
+   * The session whose uploads are shown. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session) {
+      this.remoteDesktopService = session;
+    }
+  }
+
   constructor(
     public remoteDesktopService: RemoteDesktopService,
   ) {
@@ -0,0 +1,185 @@
+/**
+ * Completes the guacamole-common-js type definitions with the members
+ * this library relies on but which are missing from the published typings.
+ */
+import {OutputStream, StringWriter} from '@raytecvision/guacamole-common-js';
+
+declare module '@raytecvision/guacamole-common-js' {
+  interface Status {
+    /**
+     * The Guacamole protocol status code, as listed within Guacamole.Status.Code.
+     */
+    code: number;
+
+    /**
+     * An arbitrary human-readable message describing the status, if any.
+     */
+    message: string;
+  }
+
+  namespace Display {
+    interface VisibleLayer {
+      /**
+       * The current width of the layer, in pixels.
+       */
+      width: number;
+
+      /**
+       * The current height of the layer, in pixels.
+       */
+      height: number;
+
+      /**
+       * Returns a new canvas element holding a copy of the image of the layer.
+       */
+      toCanvas(): HTMLCanvasElement;
+    }
+  }
+
+  interface OnScreenKeyboard {
+    /**
+     * The keys of the layout, by name. Each name maps to all the keys it may
+     * stand for, depending on the active modifiers.
+     */
+    keys: { [name: string]: OnScreenKeyboard.Key[] };
+  }
+
+  namespace OnScreenKeyboard {
+    interface Key {
+      /**
+       * The keysym sent when the key is pressed.
+       */
+      keysym: number;
+    }
+  }
+
+  namespace Mouse {
+    interface Touchpad {
+      /**
+       * The emulated mouse state, moved by dragging a finger, in pixels
+       * relative to the element.
+       */
+      currentState: State;
+    }
+
+    interface State {
+      /**
+       * Sets the position of this state from the given viewport-relative
+       * coordinates, relative to the given element.
+       */
+      fromClientPosition(element: Element, clientX: number, clientY: number): void;
+    }
+  }
+
+  interface RawAudioFormat {
+    /**
+     * The number of bytes of each sample: 1 for 8-bit audio, 2 for 16-bit audio.
+     */
+    bytesPerSample: number;
+
+    /**
+     * The number of interleaved channels.
+     */
+    channels: number;
+
+    /**
+     * The number of samples per second, per channel.
+     */
+    rate: number;
+  }
+
+  /**
+   * A recording of a Guacamole session, played back through its own
+   * Guacamole.Client. The recording is read from the given tunnel, usually a
+   * StaticHTTPTunnel, and can be played while it is still being downloaded.
+   */
+  class SessionRecording {
+    /**
+     * @param tunnel
+     *     The tunnel from which the recording is read.
+     */
+    constructor(tunnel: Tunnel);
+
+    /**
+     * Fired when new frames have been read, with the new duration of the
+     * recording in milliseconds.
+     */
+    onprogress: (duration: number) => void;
+
+    /**
+     * Fired whenever playback starts.
+     */
+    onplay: () => void;
+
+    /**
+     * Fired whenever playback is paused, including when the end of the
+     * recording is reached.
+     */
+    onpause: () => void;
+
+    /**
+     * Fired whenever the playback position changes, with the new position
+     * in milliseconds.
+     */
+    onseek: (position: number) => void;
+
+    /**
+     * Connects the tunnel, beginning the download of the recording.
+     */
+    connect(data?: string): void;
+
+    /**
+     * Disconnects the tunnel, stopping the download of the recording.
+     */
+    disconnect(): void;
+
+    /**
+     * Returns the display the recording is played back on.
+     */
+    getDisplay(): Display;
+
+    /**
+     * Returns whether playback is in progress.
+     */
+    isPlaying(): boolean;
+
+    /**
+     * Returns the playback position, in milliseconds from the start of the recording.
+     */
+    getPosition(): number;
+
+    /**
+     * Returns the duration of the frames read so far, in milliseconds.
+     */
+    getDuration(): number;
+
+    /**
+     * Starts playback from the current position.
+     */
+    play(): void;
+
+    /**
+     * Moves the playback position to the frame closest to the given position,
+     * in milliseconds. The operation is asynchronous.
+     */
+    seek(position: number, callback?: () => void): void;
+
+    /**
+     * Pauses playback.
+     */
+    pause(): void;
+  }
+}
+
+/**
+ * Guacamole.StringWriter, which writes to an OutputStream although the published
+ * typings declare its constructor with an InputStream. A class constructor cannot
+ * be redeclared through an augmentation, so the constructor is retyped here instead.
+ */
+export const OutputStringWriter = StringWriter as unknown as new (stream: OutputStream) => StringWriter;
+
+/**
+ * The window of browsers which may only provide the Web Audio API under its
+ * former prefixed name, such as older versions of Safari.
+ */
+export type AudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
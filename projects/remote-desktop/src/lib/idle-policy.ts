@@ -0,0 +1,42 @@
+/**
+ * Describes when the remote desktop service drops a session the user no
+ * longer interacts with, e.g. for compliance.
+ */
+export interface IdlePolicy {
+  /**
+   * Whether idle sessions are disconnected at all.
+   */
+  enabled: boolean;
+
+  /**
+   * The time without any keyboard, mouse or touch input after which the
+   * session is disconnected, in milliseconds.
+   */
+  timeout: number;
+
+  /**
+   * The time before the disconnection during which the user is warned and
+   * may stay connected, in milliseconds.
+   */
+  warningTime: number;
+}
+
+/**
+ * The policy in use until one is set through
+ * RemoteDesktopService.setIdlePolicy(). Idle disconnection is opt-in.
+ */
+export const DEFAULT_IDLE_POLICY: IdlePolicy = {
+  enabled: false,
+  timeout: 15 * 60 * 1000,
+  warningTime: 60 * 1000,
+};
+
+/**
+ * The progress of a pending idle disconnection.
+ */
+export interface IdleStatus {
+  /**
+   * The number of milliseconds left before the session is disconnected.
+   */
+  disconnectIn: number;
+}
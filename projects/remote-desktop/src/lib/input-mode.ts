@@ -0,0 +1,75 @@
+/**
+ * Valid touch input mode strings.
+ */
+export const InputMode = {
+  /**
+   * The display behaves as a touchscreen: tapping clicks under the finger
+   * and a long press right-clicks.
+   */
+  TOUCHSCREEN: 'touchscreen',
+
+  /**
+   * The display behaves as a touchpad: dragging a finger moves the cursor,
+   * tapping clicks where the cursor is, tapping with two fingers
+   * right-clicks and dragging two fingers scrolls. Tapping then dragging
+   * drags.
+   */
+  TOUCHPAD: 'touchpad',
+};
+
+/**
+ * The touch input settings of the user, kept across sessions.
+ */
+export interface InputPreferences {
+  /**
+   * The touch input mode, as listed within InputMode.
+   */
+  mode: string;
+
+  /**
+   * Whether a drag made on the touchpad keeps the button held once the
+   * finger is lifted, until the next tap. Long drags can then be made of
+   * several strokes.
+   */
+  dragLock: boolean;
+}
+
+/**
+ * The preferences in use until the user changes them.
+ */
+export const DEFAULT_INPUT_PREFERENCES: InputPreferences = {
+  mode: InputMode.TOUCHSCREEN,
+  dragLock: false,
+};
+
+/**
+ * The local storage key under which the preferences are kept.
+ */
+const INPUT_PREFERENCES_STORAGE_KEY = 'ngx-remote-desktop-input-preferences';
+
+/**
+ * Returns the preferences kept in the local storage of the browser, or the
+ * default ones if there are none or the storage is unavailable.
+ */
+export function loadInputPreferences(): InputPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INPUT_PREFERENCES_STORAGE_KEY));
+    return {...DEFAULT_INPUT_PREFERENCES, ...stored};
+  } catch (e) {
+    return DEFAULT_INPUT_PREFERENCES;
+  }
+}
+
+/**
+ * Keeps the given preferences in the local storage of the browser, if available.
+ *
+ * @param preferences
+ *     The preferences to keep.
+ */
+export function saveInputPreferences(preferences: InputPreferences): void {
+  try {
+    localStorage.setItem(INPUT_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (e) {
+    // Private browsing or disabled storage: the preferences only last for the session
+  }
+}
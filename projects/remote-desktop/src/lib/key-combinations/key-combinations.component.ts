@@ -0,0 +1,105 @@
+import {Component, ElementRef, HostListener, Input, ViewEncapsulation} from '@angular/core';
+import {RemoteDesktopService} from '../remote-desktop.service';
+import {KEY_COMBINATIONS, KeyCombination} from '../keysyms';
+
+/**
+ * Dropdown menu sending the key combinations the browser or the operating
+ * system would otherwise swallow, meant to be placed in a toolbar item:
+ *
+ *   <ngx-remote-desktop-toolbar-item align="left">
+ *     <ngx-remote-desktop-key-combinations></ngx-remote-desktop-key-combinations>
+ *   </ngx-remote-desktop-toolbar-item>
+ */
+@Component({
+  selector: 'ngx-remote-desktop-key-combinations',
+  template: `
+    <div class="ngx-remote-desktop-key-combinations" (click)="toggle()">
+      {{ label }} &#9662;
+    </div>
+    <ul class="ngx-remote-desktop-key-combinations-menu" *ngIf="open">
+      <li
+        class="ngx-remote-desktop-key-combinations-item"
+        *ngFor="let combination of getCombinations()"
+        (click)="send(combination)"
+      >
+        {{ combination.label }}
+      </li>
+    </ul>
+  `,
+  styleUrls: ['./key-combinations.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+})
+export class KeyCombinationsComponent {
+  /**
+   * The text of the toolbar item
+   */
+  @Input()
+  public label = 'Keys';
+
+  /**
+   * The key combinations added to the built-in ones
+   */
+  @Input()
+  public combinations: KeyCombination[] = [];
+
+  /**
+   * Whether the built-in key combinations are listed
+   */
+  @Input()
+  public includeDefaults = true;
+
+  /**
+   * The session to send the key combinations to. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session) {
+      this.manager = session;
+    }
+  }
+
+  /**
+   * Whether the menu is open
+   */
+  public open = false;
+
+  constructor(
+    public manager: RemoteDesktopService,
+    private element: ElementRef,
+  ) {
+  }
+
+  /**
+   * Get the key combinations listed in the menu
+   */
+  public getCombinations(): KeyCombination[] {
+    return this.includeDefaults ? [...KEY_COMBINATIONS, ...this.combinations] : this.combinations;
+  }
+
+  /**
+   * Open or close the menu
+   */
+  public toggle(): void {
+    this.open = !this.open;
+  }
+
+  /**
+   * Send the given key combination and close the menu
+   * @param combination
+   */
+  public send(combination: KeyCombination): void {
+    this.manager.sendKeyCombination(combination.keysyms);
+    this.open = false;
+  }
+
+  /**
+   * Close the menu when clicking anywhere else
+   * @param event
+   */
+  @HostListener('document:click', ['$event'])
+  private onDocumentClick(event: MouseEvent): void {
+    if (this.open && !this.element.nativeElement.contains(event.target)) {
+      this.open = false;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import {InjectionToken} from '@angular/core';
+import {Keysym} from './keysyms';
+
+/**
+ * A key pressed or released on the local keyboard, or to be sent to the
+ * remote desktop.
+ */
+export interface KeyEvent {
+  /**
+   * Whether the key is pressed or released.
+   */
+  pressed: boolean;
+
+  /**
+   * The keysym of the key.
+   */
+  keysym: number;
+}
+
+/**
+ * Inspects the key events typed into a session before they reach the
+ * remote desktop. Interceptors are chained in the order they are provided,
+ * each one receiving the events returned by the previous one.
+ *
+ * The same interceptors are shared by all the sessions, so they must not keep
+ * any state between events. The release of a key whose press was dropped
+ * needs no interception: it is not sent, as the key is not held on the
+ * remote desktop.
+ */
+export interface KeyInterceptor {
+  /**
+   * Returns the key events to send instead of the given one: none to drop
+   * it, another keysym to remap it or several events to expand it.
+   *
+   * @param event
+   *     The key event.
+   *
+   * @param pressedKeysyms
+   *     The keysyms held on the local keyboard, including the given one
+   *     when pressed.
+   */
+  intercept(event: KeyEvent, pressedKeysyms: number[]): KeyEvent[];
+}
+
+/**
+ * Provides the key interceptors of every session, e.g.
+ *
+ *   {provide: KEY_INTERCEPTORS, useValue: new RemapKeyInterceptor({...}), multi: true}
+ */
+export const KEY_INTERCEPTORS = new InjectionToken<KeyInterceptor[]>('KEY_INTERCEPTORS');
+
+/**
+ * The left-hand keysym of each right-hand modifier
+ */
+const LEFT_MODIFIERS = {
+  [Keysym.SHIFT_RIGHT]: Keysym.SHIFT_LEFT,
+  [Keysym.CONTROL_RIGHT]: Keysym.CONTROL_LEFT,
+  [Keysym.ALT_RIGHT]: Keysym.ALT_LEFT,
+  [Keysym.META_RIGHT]: Keysym.META_LEFT,
+  [Keysym.SUPER_RIGHT]: Keysym.SUPER_LEFT,
+};
+
+/**
+ * Returns the given keysym, or the left-hand one if it is a right-hand
+ * modifier, so that either side matches a key combination.
+ *
+ * @param keysym
+ *     The keysym to normalize.
+ */
+export function normalizeKeysym(keysym: number): number {
+  return LEFT_MODIFIERS[keysym] || keysym;
+}
+
+/**
+ * Returns whether all the keys of the given combination are held.
+ *
+ * @param keysyms
+ *     The keysyms of the combination, left-hand modifiers standing for
+ *     either side.
+ *
+ * @param pressedKeysyms
+ *     The keysyms held.
+ */
+export function isCombinationPressed(keysyms: number[], pressedKeysyms: number[]): boolean {
+  const pressed = pressedKeysyms.map(normalizeKeysym);
+  return keysyms.every(keysym => pressed.includes(normalizeKeysym(keysym)));
+}
+
+/**
+ * Drops the given key combinations, e.g. Win+R. The last key of a
+ * combination is dropped while the others are held; the others, usually
+ * modifiers, are still sent.
+ */
+export class BlockKeyCombinationInterceptor implements KeyInterceptor {
+  /**
+   * @param combinations
+   *     The keysyms of the combinations to block.
+   */
+  constructor(private combinations: number[][]) {
+  }
+
+  intercept(event: KeyEvent, pressedKeysyms: number[]): KeyEvent[] {
+    if (!event.pressed) {
+      return [event];
+    }
+
+    const keysym = normalizeKeysym(event.keysym);
+    const blocked = this.combinations.some(combination =>
+      normalizeKeysym(combination[combination.length - 1]) === keysym &&
+      isCombinationPressed(combination, pressedKeysyms));
+    return blocked ? [] : [event];
+  }
+}
+
+/**
+ * Replaces keysyms by others, e.g. the Mac command key by control.
+ */
+export class RemapKeyInterceptor implements KeyInterceptor {
+  /**
+   * @param mapping
+   *     The keysym to send instead of each remapped keysym.
+   */
+  constructor(private mapping: { [keysym: number]: number }) {
+  }
+
+  intercept(event: KeyEvent): KeyEvent[] {
+    const keysym = this.mapping[event.keysym];
+    return [keysym === undefined ? event : {pressed: event.pressed, keysym}];
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * The X11 keysyms of the keys which do not type a character.
+ */
+export const Keysym = {
+  BACKSPACE: 0xFF08,
+  TAB: 0xFF09,
+  ENTER: 0xFF0D,
+  PAUSE: 0xFF13,
+  ESCAPE: 0xFF1B,
+  SPACE: 0x20,
+  DELETE: 0xFFFF,
+  INSERT: 0xFF63,
+  HOME: 0xFF50,
+  END: 0xFF57,
+  PAGE_UP: 0xFF55,
+  PAGE_DOWN: 0xFF56,
+  LEFT: 0xFF51,
+  UP: 0xFF52,
+  RIGHT: 0xFF53,
+  DOWN: 0xFF54,
+  PRINT_SCREEN: 0xFF61,
+  MENU: 0xFF67,
+  SHIFT_LEFT: 0xFFE1,
+  SHIFT_RIGHT: 0xFFE2,
+  CONTROL_LEFT: 0xFFE3,
+  CONTROL_RIGHT: 0xFFE4,
+  CAPS_LOCK: 0xFFE5,
+  ALT_LEFT: 0xFFE9,
+  ALT_RIGHT: 0xFFEA,
+  ALT_GR: 0xFE03,
+  META_LEFT: 0xFFE7,
+  META_RIGHT: 0xFFE8,
+  SUPER_LEFT: 0xFFEB,
+  SUPER_RIGHT: 0xFFEC,
+  F1: 0xFFBE,
+  F2: 0xFFBF,
+  F3: 0xFFC0,
+  F4: 0xFFC1,
+  F5: 0xFFC2,
+  F6: 0xFFC3,
+  F7: 0xFFC4,
+  F8: 0xFFC5,
+  F9: 0xFFC6,
+  F10: 0xFFC7,
+  F11: 0xFFC8,
+  F12: 0xFFC9,
+};
+
+/**
+ * Returns the keysym typing the given character.
+ *
+ * @param character
+ *     A single character, e.g. "l".
+ */
+export function getCharacterKeysym(character: string): number {
+  const codepoint = character.codePointAt(0);
+
+  // Latin-1 characters have the same keysym as their codepoint
+  if (codepoint <= 0xFF) {
+    return codepoint;
+  }
+  return 0x01000000 | codepoint;
+}
+
+/**
+ * A shortcut made of keys pressed together.
+ */
+export interface KeyCombination {
+  /**
+   * The identifier of the shortcut.
+   */
+  name: string;
+
+  /**
+   * The human-readable name of the shortcut, e.g. "Ctrl+Alt+Del".
+   */
+  label: string;
+
+  /**
+   * The keysyms of the keys, in the order they are pressed.
+   */
+  keysyms: number[];
+}
+
+/**
+ * The Ctrl+Alt+F-key shortcuts, switching virtual terminals on Linux
+ */
+const VIRTUAL_TERMINAL_COMBINATIONS: KeyCombination[] = Array.from({length: 12}, (_, index) => ({
+  name: `CTRL_ALT_F${index + 1}`,
+  label: `Ctrl+Alt+F${index + 1}`,
+  keysyms: [Keysym.CONTROL_LEFT, Keysym.ALT_LEFT, Keysym.F1 + index],
+}));
+
+/**
+ * Shortcuts which are usually swallowed by the browser or the local operating system.
+ */
+export const KEY_COMBINATIONS: KeyCombination[] = [
+  {name: 'CTRL_ALT_DEL', label: 'Ctrl+Alt+Del', keysyms: [Keysym.CONTROL_LEFT, Keysym.ALT_LEFT, Keysym.DELETE]},
+  {name: 'CTRL_SHIFT_ESC', label: 'Ctrl+Shift+Esc', keysyms: [Keysym.CONTROL_LEFT, Keysym.SHIFT_LEFT, Keysym.ESCAPE]},
+  {name: 'ALT_TAB', label: 'Alt+Tab', keysyms: [Keysym.ALT_LEFT, Keysym.TAB]},
+  {name: 'ALT_F4', label: 'Alt+F4', keysyms: [Keysym.ALT_LEFT, Keysym.F4]},
+  {name: 'WIN', label: 'Win', keysyms: [Keysym.SUPER_LEFT]},
+  {name: 'WIN_L', label: 'Win+L', keysyms: [Keysym.SUPER_LEFT, getCharacterKeysym('l')]},
+  {name: 'WIN_R', label: 'Win+R', keysyms: [Keysym.SUPER_LEFT, getCharacterKeysym('r')]},
+  {name: 'WIN_D', label: 'Win+D', keysyms: [Keysym.SUPER_LEFT, getCharacterKeysym('d')]},
+  {name: 'PRINT_SCREEN', label: 'Print Screen', keysyms: [Keysym.PRINT_SCREEN]},
+  ...VIRTUAL_TERMINAL_COMBINATIONS,
+];
@@ -0,0 +1,80 @@
+import {Component, Input, ViewEncapsulation} from '@angular/core';
+import {RemoteDesktopService} from '../remote-desktop.service';
+import {MicrophoneState} from '../audio-input';
+
+/**
+ * Button forwarding the microphone to the remote desktop, showing whether it
+ * is live, meant to be placed in a toolbar item:
+ *
+ *   <ngx-remote-desktop-toolbar-item align="right">
+ *     <ngx-remote-desktop-microphone-toggle></ngx-remote-desktop-microphone-toggle>
+ *   </ngx-remote-desktop-toolbar-item>
+ *
+ * The session must be connected with audio input enabled, e.g. with the
+ * "enable-audio-input" parameter for RDP.
+ */
+@Component({
+  selector: 'ngx-remote-desktop-microphone-toggle',
+  template: `
+    <span
+      class="ngx-remote-desktop-microphone-toggle"
+      [class.ngx-remote-desktop-microphone-toggle-live]="(manager.onMicrophoneState | async) === states.LIVE"
+      [title]="getTitle(manager.onMicrophoneState | async)"
+      (click)="manager.toggleMicrophone()"
+    >
+      <span class="ngx-remote-desktop-microphone-toggle-indicator"></span>
+      {{ manager.isMicrophoneActive() ? stopLabel : startLabel }}
+    </span>
+  `,
+  styleUrls: ['./microphone-toggle.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+})
+export class MicrophoneToggleComponent {
+  /**
+   * The text of the button starting the microphone
+   */
+  @Input()
+  public startLabel = 'Microphone';
+
+  /**
+   * The text of the button stopping the microphone
+   */
+  @Input()
+  public stopLabel = 'Stop microphone';
+
+  /**
+   * The session the microphone is forwarded to. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session) {
+      this.manager = session;
+    }
+  }
+
+  public states = MicrophoneState;
+
+  constructor(public manager: RemoteDesktopService) {
+  }
+
+  /**
+   * Describe the given microphone state
+   * @param state
+   */
+  public getTitle(state: string): string {
+    switch (state) {
+      case MicrophoneState.REQUESTING:
+        return 'Waiting for access to the microphone';
+      case MicrophoneState.LIVE:
+        return 'The microphone is live';
+      case MicrophoneState.DENIED:
+        return 'Access to the microphone was denied';
+      case MicrophoneState.UNSUPPORTED:
+        return 'The browser cannot capture audio';
+      case MicrophoneState.ERROR:
+        return 'The remote desktop does not accept audio input';
+      default:
+        return 'The microphone is off';
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import {Keysym} from '../keysyms';
+
+/**
+ * The definition of an on-screen keyboard layout, in the JSON format of the
+ * Guacamole on-screen keyboard, so that the layouts published for the
+ * Guacamole web application can be used as they are.
+ */
+export interface OnScreenKeyboardLayout {
+  /**
+   * The language of the layout, e.g. "en_US".
+   */
+  language: string;
+
+  /**
+   * The type of the layout, e.g. "qwerty".
+   */
+  type: string;
+
+  /**
+   * The width of the layout in key units, the width of a standard key being 1.
+   */
+  width: number;
+
+  /**
+   * The keys, by name. Each key is a keysym, a title, a key definition or
+   * an array of key definitions, the last one whose required modifiers
+   * are all active being the one in effect.
+   */
+  keys: { [name: string]: any };
+
+  /**
+   * The arrangement of the keys: nested arrays of key names, numbers being
+   * gaps of the given width.
+   */
+  layout: any[];
+
+  /**
+   * The width of the keys which are not standard keys, by name.
+   */
+  keyWidths?: { [name: string]: number };
+}
+
+/**
+ * Returns the definitions of a key typing a symbol.
+ *
+ * @param normal
+ *     The symbol typed without modifiers.
+ *
+ * @param shifted
+ *     The symbol typed with shift.
+ *
+ * @param [altGr]
+ *     The symbol typed with AltGr, if any.
+ */
+function symbolKey(normal: string, shifted: string, altGr?: string): any[] {
+  const key = [
+    {title: normal},
+    {title: shifted, requires: ['shift']},
+  ];
+  if (altGr) {
+    key.push({title: altGr, requires: ['altgr']});
+  }
+  return key;
+}
+
+/**
+ * Returns the definitions of a key typing a letter, which also follows
+ * caps lock.
+ *
+ * @param letter
+ *     The lowercase letter.
+ *
+ * @param [altGr]
+ *     The symbol typed with AltGr, if any.
+ */
+function letterKey(letter: string, altGr?: string): any[] {
+  const upper = letter.toUpperCase();
+  const key = [
+    {title: letter},
+    {title: upper, requires: ['shift']},
+    {title: upper, requires: ['caps']},
+    {title: letter, requires: ['caps', 'shift']},
+  ];
+  if (altGr) {
+    key.push({title: altGr, requires: ['altgr']});
+  }
+  return key;
+}
+
+/**
+ * Returns the definitions of the keys typing the given letters.
+ *
+ * @param letters
+ *     The lowercase letters.
+ *
+ * @param [altGr]
+ *     The symbol typed with AltGr by some of the letters.
+ */
+function letterKeys(letters: string, altGr: { [letter: string]: string } = {}): { [name: string]: any[] } {
+  const keys = {};
+  for (const letter of Array.from(letters)) {
+    keys[letter] = letterKey(letter, altGr[letter]);
+  }
+  return keys;
+}
+
+/**
+ * The keys which do not type any symbol, shared by all the layouts
+ */
+const FUNCTION_KEYS = {
+  Esc: {title: 'Esc', keysym: Keysym.ESCAPE},
+  F1: {title: 'F1', keysym: Keysym.F1},
+  F2: {title: 'F2', keysym: Keysym.F2},
+  F3: {title: 'F3', keysym: Keysym.F3},
+  F4: {title: 'F4', keysym: Keysym.F4},
+  F5: {title: 'F5', keysym: Keysym.F5},
+  F6: {title: 'F6', keysym: Keysym.F6},
+  F7: {title: 'F7', keysym: Keysym.F7},
+  F8: {title: 'F8', keysym: Keysym.F8},
+  F9: {title: 'F9', keysym: Keysym.F9},
+  F10: {title: 'F10', keysym: Keysym.F10},
+  F11: {title: 'F11', keysym: Keysym.F11},
+  F12: {title: 'F12', keysym: Keysym.F12},
+  Del: {title: 'Del', keysym: Keysym.DELETE},
+  Back: {title: '⌫', keysym: Keysym.BACKSPACE},
+  Tab: {title: 'Tab', keysym: Keysym.TAB},
+  Caps: {title: 'Caps', keysym: Keysym.CAPS_LOCK, modifier: 'caps'},
+  Enter: {title: 'Enter', keysym: Keysym.ENTER},
+  LShift: {title: 'Shift', keysym: Keysym.SHIFT_LEFT, modifier: 'shift'},
+  RShift: {title: 'Shift', keysym: Keysym.SHIFT_RIGHT, modifier: 'shift'},
+  LCtrl: {title: 'Ctrl', keysym: Keysym.CONTROL_LEFT, modifier: 'control'},
+  RCtrl: {title: 'Ctrl', keysym: Keysym.CONTROL_RIGHT, modifier: 'control'},
+  Super: {title: 'Super', keysym: Keysym.SUPER_LEFT, modifier: 'super'},
+  LAlt: {title: 'Alt', keysym: Keysym.ALT_LEFT, modifier: 'alt'},
+  Space: {title: ' ', keysym: Keysym.SPACE},
+  Left: {title: '←', keysym: Keysym.LEFT},
+  Up: {title: '↑', keysym: Keysym.UP},
+  Down: {title: '↓', keysym: Keysym.DOWN},
+  Right: {title: '→', keysym: Keysym.RIGHT},
+};
+
+/**
+ * The row of function keys, shared by all the layouts
+ */
+const FUNCTION_ROW = ['Esc', 1, 'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'F10', 'F11', 'F12', 'Del'];
+
+/**
+ * US English QWERTY layout
+ */
+export const EN_US_LAYOUT: OnScreenKeyboardLayout = {
+  language: 'en_US',
+  type: 'qwerty',
+  width: 15,
+  keys: {
+    ...FUNCTION_KEYS,
+    ...letterKeys('qwertyuiopasdfghjklzxcvbnm'),
+    '`': symbolKey('`', '~'),
+    '1': symbolKey('1', '!'),
+    '2': symbolKey('2', '@'),
+    '3': symbolKey('3', '#'),
+    '4': symbolKey('4', '$'),
+    '5': symbolKey('5', '%'),
+    '6': symbolKey('6', '^'),
+    '7': symbolKey('7', '&'),
+    '8': symbolKey('8', '*'),
+    '9': symbolKey('9', '('),
+    '0': symbolKey('0', ')'),
+    '-': symbolKey('-', '_'),
+    '=': symbolKey('=', '+'),
+    '[': symbolKey('[', '{'),
+    ']': symbolKey(']', '}'),
+    '\\': symbolKey('\\', '|'),
+    ';': symbolKey(';', ':'),
+    '\'': symbolKey('\'', '"'),
+    ',': symbolKey(',', '<'),
+    '.': symbolKey('.', '>'),
+    '/': symbolKey('/', '?'),
+    RAlt: {title: 'Alt', keysym: Keysym.ALT_RIGHT, modifier: 'alt'},
+  },
+  layout: [
+    FUNCTION_ROW,
+    ['`', '1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '-', '=', 'Back'],
+    ['Tab', 'q', 'w', 'e', 'r', 't', 'y', 'u', 'i', 'o', 'p', '[', ']', '\\'],
+    ['Caps', 'a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l', ';', '\'', 'Enter'],
+    ['LShift', 'z', 'x', 'c', 'v', 'b', 'n', 'm', ',', '.', '/', 'RShift'],
+    ['LCtrl', 'Super', 'LAlt', 'Space', 'RAlt', 'Left', 'Up', 'Down', 'Right', 'RCtrl'],
+  ],
+  keyWidths: {
+    Back: 2,
+    Tab: 1.5,
+    '\\': 1.5,
+    Caps: 1.75,
+    Enter: 2.25,
+    LShift: 2.25,
+    RShift: 2.75,
+    LCtrl: 1.5,
+    Super: 1.25,
+    LAlt: 1.25,
+    Space: 4.25,
+    RAlt: 1.25,
+    RCtrl: 1.5,
+  },
+};
+
+/**
+ * Italian QWERTY layout
+ */
+export const IT_IT_LAYOUT: OnScreenKeyboardLayout = {
+  language: 'it_IT',
+  type: 'qwerty',
+  width: 15,
+  keys: {
+    ...FUNCTION_KEYS,
+    ...letterKeys('qwertyuiopasdfghjklzxcvbnm', {e: '€'}),
+    '\\': symbolKey('\\', '|'),
+    '1': symbolKey('1', '!'),
+    '2': symbolKey('2', '"'),
+    '3': symbolKey('3', '£'),
+    '4': symbolKey('4', '$'),
+    '5': symbolKey('5', '%'),
+    '6': symbolKey('6', '&'),
+    '7': symbolKey('7', '/'),
+    '8': symbolKey('8', '('),
+    '9': symbolKey('9', ')'),
+    '0': symbolKey('0', '='),
+    '\'': symbolKey('\'', '?'),
+    'ì': symbolKey('ì', '^'),
+    'è': symbolKey('è', 'é', '['),
+    '+': symbolKey('+', '*', ']'),
+    'ò': symbolKey('ò', 'ç', '@'),
+    'à': symbolKey('à', '°', '#'),
+    'ù': symbolKey('ù', '§'),
+    '<': symbolKey('<', '>'),
+    ',': symbolKey(',', ';'),
+    '.': symbolKey('.', ':'),
+    '-': symbolKey('-', '_'),
+    AltGr: {title: 'AltGr', keysym: Keysym.ALT_GR, modifier: 'altgr'},
+  },
+  layout: [
+    FUNCTION_ROW,
+    ['\\', '1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '\'', 'ì', 'Back'],
+    ['Tab', 'q', 'w', 'e', 'r', 't', 'y', 'u', 'i', 'o', 'p', 'è', '+'],
+    ['Caps', 'a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l', 'ò', 'à', 'ù', 'Enter'],
+    ['LShift', '<', 'z', 'x', 'c', 'v', 'b', 'n', 'm', ',', '.', '-', 'RShift'],
+    ['LCtrl', 'Super', 'LAlt', 'Space', 'AltGr', 'Left', 'Up', 'Down', 'Right', 'RCtrl'],
+  ],
+  keyWidths: {
+    Back: 2,
+    Tab: 1.5,
+    Caps: 1.75,
+    Enter: 1.25,
+    LShift: 1.25,
+    RShift: 1.75,
+    LCtrl: 1.5,
+    Super: 1.25,
+    LAlt: 1.25,
+    Space: 4.25,
+    AltGr: 1.25,
+    RCtrl: 1.5,
+  },
+};
+
+/**
+ * German QWERTZ layout
+ */
+export const DE_DE_LAYOUT: OnScreenKeyboardLayout = {
+  language: 'de_DE',
+  type: 'qwertz',
+  width: 15,
+  keys: {
+    ...FUNCTION_KEYS,
+    ...letterKeys('qwertzuiopasdfghjklyxcvbnmüöä', {q: '@', e: '€', m: 'µ'}),
+    '^': symbolKey('^', '°'),
+    '1': symbolKey('1', '!'),
+    '2': symbolKey('2', '"', '²'),
+    '3': symbolKey('3', '§', '³'),
+    '4': symbolKey('4', '$'),
+    '5': symbolKey('5', '%'),
+    '6': symbolKey('6', '&'),
+    '7': symbolKey('7', '/', '{'),
+    '8': symbolKey('8', '(', '['),
+    '9': symbolKey('9', ')', ']'),
+    '0': symbolKey('0', '=', '}'),
+    'ß': symbolKey('ß', '?', '\\'),
+    '´': symbolKey('´', '`'),
+    '+': symbolKey('+', '*', '~'),
+    '#': symbolKey('#', '\''),
+    '<': symbolKey('<', '>', '|'),
+    ',': symbolKey(',', ';'),
+    '.': symbolKey('.', ':'),
+    '-': symbolKey('-', '_'),
+    AltGr: {title: 'AltGr', keysym: Keysym.ALT_GR, modifier: 'altgr'},
+  },
+  layout: [
+    FUNCTION_ROW,
+    ['^', '1', '2', '3', '4', '5', '6', '7', '8', '9', '0', 'ß', '´', 'Back'],
+    ['Tab', 'q', 'w', 'e', 'r', 't', 'z', 'u', 'i', 'o', 'p', 'ü', '+'],
+    ['Caps', 'a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l', 'ö', 'ä', '#', 'Enter'],
+    ['LShift', '<', 'y', 'x', 'c', 'v', 'b', 'n', 'm', ',', '.', '-', 'RShift'],
+    ['LCtrl', 'Super', 'LAlt', 'Space', 'AltGr', 'Left', 'Up', 'Down', 'Right', 'RCtrl'],
+  ],
+  keyWidths: {
+    Back: 2,
+    Tab: 1.5,
+    Caps: 1.75,
+    Enter: 1.25,
+    LShift: 1.25,
+    RShift: 1.75,
+    LCtrl: 1.5,
+    Super: 1.25,
+    LAlt: 1.25,
+    Space: 4.25,
+    AltGr: 1.25,
+    RCtrl: 1.5,
+  },
+};
+
+/**
+ * The built-in layouts, by locale
+ */
+export const ON_SCREEN_KEYBOARD_LAYOUTS: { [locale: string]: OnScreenKeyboardLayout } = {
+  'en-US': EN_US_LAYOUT,
+  'it-IT': IT_IT_LAYOUT,
+  'de-DE': DE_DE_LAYOUT,
+};
@@ -0,0 +1,286 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Renderer2,
+  SimpleChanges,
+  ViewChild,
+  ViewEncapsulation,
+} from '@angular/core';
+import {HttpClient} from '@angular/common/http';
+import {OnScreenKeyboard} from '@raytecvision/guacamole-common-js';
+import {Subscription} from 'rxjs';
+import '../guacamole-typings';
+import {RemoteDesktopService} from '../remote-desktop.service';
+import {Keysym} from '../keysyms';
+import {ON_SCREEN_KEYBOARD_LAYOUTS, OnScreenKeyboardLayout} from './on-screen-keyboard-layouts';
+
+/**
+ * A modifier key of the current layout
+ */
+interface ModifierKey {
+  /**
+   * The name of the modifier, e.g. "shift"
+   */
+  modifier: string;
+
+  /**
+   * The name of the key within the layout
+   */
+  name: string;
+}
+
+/**
+ * On-screen keyboard typing into a session, for devices without a physical keyboard.
+ *
+ * Tapping a modifier latches it: it applies to the next key only, unless
+ * stickyModifiers is set, in which case it stays active until tapped again.
+ */
+@Component({
+  selector: 'ngx-remote-desktop-osk',
+  template: `
+    <div class="ngx-remote-desktop-osk" #keyboard></div>
+  `,
+  styleUrls: ['./osk.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+})
+export class OskComponent implements OnChanges, AfterViewInit, OnDestroy {
+  /**
+   * The layout: either the locale of a built-in layout, the URL of a JSON
+   * layout definition or the layout definition itself
+   */
+  @Input()
+  public layout: string | OnScreenKeyboardLayout = 'en-US';
+
+  /**
+   * Whether modifiers stay active until tapped again instead of applying to the next key only
+   */
+  @Input()
+  public stickyModifiers = false;
+
+  /**
+   * The session to type into. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session) {
+      this.manager = session;
+    }
+  }
+
+  @ViewChild('keyboard', {static: true})
+  private keyboardContainer: ElementRef;
+
+  private keyboard: OnScreenKeyboard;
+
+  /**
+   * The modifier keys of the current layout, by keysym
+   */
+  private modifierKeys: { [keysym: number]: ModifierKey } = {};
+
+  /**
+   * The keysyms of the modifiers currently active
+   */
+  private activeModifiers: number[] = [];
+
+  /**
+   * The pending download of a layout, if any
+   */
+  private layoutSubscription: Subscription;
+
+  constructor(
+    public manager: RemoteDesktopService,
+    private http: HttpClient,
+    private renderer: Renderer2,
+  ) {
+  }
+
+  /**
+   * Load the layout whenever a new one is given
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes.layout) {
+      this.loadLayout(this.layout);
+    }
+  }
+
+  /**
+   * Fit the keyboard once the component is laid out
+   */
+  ngAfterViewInit(): void {
+    this.resizeKeyboard();
+  }
+
+  /**
+   * Release the active modifiers and remove the keyboard when destroying the component
+   */
+  ngOnDestroy(): void {
+    if (this.layoutSubscription) {
+      this.layoutSubscription.unsubscribe();
+    }
+    this.removeKeyboard();
+  }
+
+  /**
+   * Resize the keyboard when the window is resized
+   */
+  @HostListener('window:resize')
+  private onWindowResize(): void {
+    this.resizeKeyboard();
+  }
+
+  /**
+   * Create the keyboard from a built-in layout, a downloaded layout or the given layout definition
+   * @param layout
+   */
+  private loadLayout(layout: string | OnScreenKeyboardLayout): void {
+    if (this.layoutSubscription) {
+      this.layoutSubscription.unsubscribe();
+      this.layoutSubscription = null;
+    }
+    if (typeof layout !== 'string') {
+      this.createKeyboard(layout);
+    } else if (ON_SCREEN_KEYBOARD_LAYOUTS[layout]) {
+      this.createKeyboard(ON_SCREEN_KEYBOARD_LAYOUTS[layout]);
+    } else {
+      this.layoutSubscription = this.http.get<OnScreenKeyboardLayout>(layout).subscribe(
+        definition => this.createKeyboard(definition),
+        err => console.error('Unable to load the on-screen keyboard layout', err),
+      );
+    }
+  }
+
+  /**
+   * Replace the keyboard with one using the given layout
+   * @param layout
+   */
+  private createKeyboard(layout: OnScreenKeyboardLayout): void {
+    this.removeKeyboard();
+
+    this.keyboard = new OnScreenKeyboard(new OnScreenKeyboard.Layout(layout));
+    this.keyboard.onkeydown = this.handleKeyDown.bind(this);
+    this.keyboard.onkeyup = this.handleKeyUp.bind(this);
+
+    this.modifierKeys = {};
+    Object.keys(this.keyboard.keys).forEach(name => {
+      this.keyboard.keys[name]
+        .filter(key => key.modifier)
+        .forEach(key => this.modifierKeys[key.keysym] = {modifier: key.modifier, name});
+    });
+
+    this.renderer.appendChild(this.keyboardContainer.nativeElement, this.keyboard.getElement());
+    this.resizeKeyboard();
+  }
+
+  /**
+   * Release the active modifiers and remove the keyboard, if any
+   */
+  private removeKeyboard(): void {
+    if (!this.keyboard) {
+      return;
+    }
+    this.activeModifiers
+      .filter(keysym => keysym !== Keysym.CAPS_LOCK)
+      .forEach(keysym => this.sendKeyEvent(0, keysym));
+    this.activeModifiers = [];
+    this.keyboard.onkeydown = this.keyboard.onkeyup = null;
+    this.renderer.removeChild(this.keyboardContainer.nativeElement, this.keyboard.getElement());
+    this.keyboard = null;
+  }
+
+  /**
+   * Scale the keyboard to the width of the component
+   */
+  private resizeKeyboard(): void {
+    if (this.keyboard) {
+      this.keyboard.resize(this.keyboardContainer.nativeElement.clientWidth);
+    }
+  }
+
+  /**
+   * Send a key pressed on the keyboard to the remote desktop
+   * @param keysym
+   */
+  private handleKeyDown(keysym: number): void {
+    if (this.modifierKeys[keysym]) {
+      this.activeModifiers.push(keysym);
+    }
+    if (keysym === Keysym.CAPS_LOCK) {
+      this.toggleCapsLock();
+      return;
+    }
+    this.sendKeyEvent(1, keysym);
+  }
+
+  /**
+   * Send a key released on the keyboard to the remote desktop, then release
+   * the latched modifiers
+   * @param keysym
+   */
+  private handleKeyUp(keysym: number): void {
+    if (this.modifierKeys[keysym]) {
+      this.activeModifiers = this.activeModifiers.filter(active => active !== keysym);
+    }
+    if (keysym === Keysym.CAPS_LOCK) {
+      this.toggleCapsLock();
+      return;
+    }
+    this.sendKeyEvent(0, keysym);
+
+    if (!this.modifierKeys[keysym] && !this.stickyModifiers) {
+      this.releaseLatchedModifiers();
+    }
+  }
+
+  /**
+   * Caps lock toggles on the remote desktop when pressed, so it is pressed
+   * and released both when activated and deactivated on the keyboard
+   */
+  private toggleCapsLock(): void {
+    this.sendKeyEvent(1, Keysym.CAPS_LOCK);
+    this.sendKeyEvent(0, Keysym.CAPS_LOCK);
+  }
+
+  /**
+   * Deactivate the active modifiers but caps lock by tapping their keys again,
+   * so that the keyboard shows them released as well
+   */
+  private releaseLatchedModifiers(): void {
+    this.activeModifiers
+      .filter(keysym => keysym !== Keysym.CAPS_LOCK)
+      .forEach(keysym => {
+        const key = this.keyboard.getElement().querySelector('.guac-keyboard-key-' + getCSSName(this.modifierKeys[keysym].name));
+        if (key) {
+          key.dispatchEvent(new Event('touchstart'));
+          key.dispatchEvent(new Event('touchend'));
+        }
+      });
+  }
+
+  /**
+   * Send a key event to the remote desktop, through the key interceptors of the session,
+   * counting it as user activity
+   * @param pressed 1 if pressed, 0 if released
+   * @param keysym
+   */
+  private sendKeyEvent(pressed: number, keysym: number): void {
+    this.manager.reportActivity();
+    this.manager.handleKeyEvent(pressed === 1, keysym);
+  }
+}
+
+/**
+ * Returns the name of the CSS class suffix the Guacamole on-screen keyboard
+ * derives from the given key name
+ * @param name
+ */
+function getCSSName(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1-$2')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .toLowerCase();
+}
@@ -0,0 +1,373 @@
+import {
+  AfterViewChecked,
+  Component,
+  ElementRef,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Renderer2,
+  SimpleChanges,
+  ViewChild,
+  ViewEncapsulation,
+} from '@angular/core';
+import {Display, SessionRecording, StaticHTTPTunnel, Status, Tunnel} from '@raytecvision/guacamole-common-js';
+import {interval, Subscription} from 'rxjs';
+import '../guacamole-typings';
+
+/**
+ * The playback speeds offered by default
+ */
+const DEFAULT_SPEEDS = [0.5, 1, 2, 4, 8];
+
+/**
+ * The number of milliseconds between two playback position updates
+ */
+const PLAYBACK_INTERVAL = 40;
+
+/**
+ * Plays back a Guacamole session recording, such as the ones written by guacd
+ * or by RemoteDesktopService.stopRecording()
+ */
+@Component({
+  selector: 'ngx-remote-desktop-player',
+  template: `
+    <div class="ngx-remote-desktop-player">
+      <div class="ngx-remote-desktop-viewport ngx-remote-desktop-player-viewport" #viewport>
+        <div class="ngx-remote-desktop-display" #display></div>
+        <ngx-remote-desktop-message
+          *ngIf="error"
+          title="Playback failed"
+          [message]="error"
+          type="error"
+        >
+        </ngx-remote-desktop-message>
+      </div>
+      <div class="ngx-remote-desktop-player-controls">
+        <button
+          type="button"
+          class="ngx-remote-desktop-player-play"
+          [disabled]="!duration"
+          (click)="togglePlayback()"
+        >
+          {{ playing ? 'Pause' : 'Play' }}
+        </button>
+        <input
+          type="range"
+          class="ngx-remote-desktop-player-seek"
+          min="0"
+          [max]="duration"
+          [value]="position"
+          [disabled]="!duration"
+          (input)="seek(+$any($event.target).value)"
+        />
+        <span class="ngx-remote-desktop-player-time">
+          {{ formatTime(position) }} / {{ formatTime(duration) }}<ng-container *ngIf="loading">&hellip;</ng-container>
+        </span>
+        <select
+          class="ngx-remote-desktop-player-speed"
+          [value]="speed"
+          (change)="setSpeed(+$any($event.target).value)"
+        >
+          <option *ngFor="let option of speeds" [value]="option">{{ option }}&times;</option>
+        </select>
+      </div>
+    </div>
+  `,
+  styleUrls: ['./player.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+})
+export class PlayerComponent implements OnChanges, AfterViewChecked, OnDestroy {
+  /**
+   * The recording to play: either the recording itself or the URL to download it from
+   */
+  @Input()
+  public recording: Blob | ArrayBuffer | string;
+
+  /**
+   * Start playing as soon as the recording is available
+   */
+  @Input()
+  public autoplay = false;
+
+  /**
+   * Whether the recording URL is requested with credentials
+   */
+  @Input()
+  public withCredentials = false;
+
+  /**
+   * The playback speeds the user can choose from
+   */
+  @Input()
+  public speeds = DEFAULT_SPEEDS;
+
+  /**
+   * Whether playback is in progress
+   */
+  public playing = false;
+
+  /**
+   * Whether the recording is still being downloaded
+   */
+  public loading = false;
+
+  /**
+   * The playback position, in milliseconds
+   */
+  public position = 0;
+
+  /**
+   * The duration of the recording downloaded so far, in milliseconds
+   */
+  public duration = 0;
+
+  /**
+   * The playback speed, 1 being real time
+   */
+  public speed = 1;
+
+  /**
+   * The reason the recording could not be played, if any
+   */
+  public error: string = null;
+
+  @ViewChild('display', {static: true})
+  private display: ElementRef;
+
+  @ViewChild('viewport', {static: true})
+  private viewport: ElementRef;
+
+  private sessionRecording: SessionRecording;
+
+  /**
+   * The object URL created to download a Blob or ArrayBuffer recording
+   */
+  private objectUrl: string;
+
+  /**
+   * The playback position and local time playback was last (re)started from.
+   * Playback is driven from here rather than by SessionRecording.play(),
+   * which only supports real time.
+   */
+  private startPosition = 0;
+  private startTime: number;
+
+  private playbackSubscription: Subscription;
+
+  constructor(private renderer: Renderer2) {
+  }
+
+  /**
+   * Load the recording whenever a new one is given
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes.recording) {
+      this.unload();
+      if (this.recording) {
+        this.load(this.recording);
+      }
+    }
+  }
+
+  ngAfterViewChecked(): void {
+    this.setDisplayScale();
+  }
+
+  /**
+   * Stop downloading and playing when destroying the component
+   */
+  ngOnDestroy(): void {
+    this.unload();
+  }
+
+  /**
+   * Resize the display scale when the window is resized
+   */
+  @HostListener('window:resize')
+  private onWindowResize(): void {
+    this.setDisplayScale();
+  }
+
+  /**
+   * Start playing, from the beginning when the end has been reached
+   */
+  public play(): void {
+    if (!this.sessionRecording || this.playing || !this.duration) {
+      return;
+    }
+    if (this.position >= this.duration) {
+      this.position = 0;
+    }
+    this.playing = true;
+    this.restartClock();
+    this.playbackSubscription = interval(PLAYBACK_INTERVAL).subscribe(() => this.advance());
+  }
+
+  /**
+   * Pause playing
+   */
+  public pause(): void {
+    if (this.playbackSubscription) {
+      this.playbackSubscription.unsubscribe();
+      this.playbackSubscription = null;
+    }
+    this.playing = false;
+  }
+
+  /**
+   * Play if paused, pause if playing
+   */
+  public togglePlayback(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Move to the given position
+   * @param position The position in milliseconds
+   */
+  public seek(position: number): void {
+    if (!this.sessionRecording) {
+      return;
+    }
+    this.position = Math.max(0, Math.min(position, this.duration));
+    this.restartClock();
+    this.sessionRecording.seek(this.position);
+  }
+
+  /**
+   * Change the playback speed
+   * @param speed The new speed, 1 being real time
+   */
+  public setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Invalid playback speed: ${speed}`);
+    }
+    this.restartClock();
+    this.speed = speed;
+  }
+
+  /**
+   * Format a number of milliseconds as [h:]mm:ss
+   */
+  public formatTime(milliseconds: number): string {
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => (value < 10 ? '0' : '') + value;
+    return (hours ? hours + ':' + pad(minutes) : minutes) + ':' + pad(seconds);
+  }
+
+  /**
+   * Start downloading the given recording and show its display
+   */
+  private load(recording: Blob | ArrayBuffer | string): void {
+    let url: string;
+    if (typeof recording === 'string') {
+      url = recording;
+    } else {
+      const blob = recording instanceof Blob ? recording : new Blob([recording]);
+      url = this.objectUrl = URL.createObjectURL(blob);
+    }
+
+    const tunnel = new StaticHTTPTunnel(url, this.withCredentials, {});
+    tunnel.onerror = (status: Status) => this.error = status.message || 'The recording could not be downloaded.';
+    tunnel.onstatechange = (state: number) => this.loading = state !== Tunnel.State.CLOSED;
+
+    this.sessionRecording = new SessionRecording(tunnel);
+    this.sessionRecording.onprogress = (duration: number) => this.handleProgress(duration);
+
+    this.renderer.appendChild(this.display.nativeElement, this.getDisplay().getElement());
+    this.sessionRecording.connect();
+  }
+
+  /**
+   * Stop downloading and playing the current recording, if any, and reset the player
+   */
+  private unload(): void {
+    this.pause();
+    if (this.sessionRecording) {
+      this.sessionRecording.onprogress = null;
+      this.sessionRecording.disconnect();
+      this.renderer.removeChild(this.display.nativeElement, this.getDisplay().getElement());
+      this.sessionRecording = null;
+    }
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.position = this.duration = 0;
+    this.loading = false;
+    this.error = null;
+  }
+
+  /**
+   * Update the duration as frames are downloaded, showing the first frame
+   * as soon as it is available
+   */
+  private handleProgress(duration: number): void {
+    const first = !this.duration;
+    this.duration = duration;
+    if (first) {
+      this.sessionRecording.seek(0);
+      if (this.autoplay) {
+        this.play();
+      }
+    }
+  }
+
+  /**
+   * Record the current position and time as the new reference of the playback clock
+   */
+  private restartClock(): void {
+    this.startPosition = this.position;
+    this.startTime = Date.now();
+  }
+
+  /**
+   * Move the recording to the position given by the playback clock
+   */
+  private advance(): void {
+    const position = this.startPosition + (Date.now() - this.startTime) * this.speed;
+    if (position < this.duration) {
+      this.position = position;
+    } else {
+      this.position = this.duration;
+      if (this.loading) {
+        // Wait for the next frames to be downloaded
+        this.restartClock();
+      } else {
+        this.pause();
+      }
+    }
+    this.sessionRecording.seek(this.position);
+  }
+
+  /**
+   * Get the display the recording is played back on
+   */
+  private getDisplay(): Display {
+    return this.sessionRecording.getDisplay();
+  }
+
+  /**
+   * Scale the display to fit the viewport
+   */
+  private setDisplayScale(): void {
+    if (!this.sessionRecording) {
+      return;
+    }
+    const display = this.getDisplay();
+    if (!display.getWidth() || !display.getHeight()) {
+      return;
+    }
+    const viewportElement = this.viewport.nativeElement;
+    display.scale(Math.min(viewportElement.clientWidth / display.getWidth(),
+      viewportElement.clientHeight / display.getHeight()));
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Describes if, when and how often the remote desktop service tries to
+ * re-establish a connection that has been lost.
+ */
+export interface ReconnectPolicy {
+  /**
+   * Whether automatic reconnection is enabled at all.
+   */
+  enabled: boolean;
+
+  /**
+   * The maximum number of consecutive attempts before giving up. The
+   * counter is reset as soon as a connection is successfully established.
+   */
+  maxAttempts: number;
+
+  /**
+   * The delay before the first attempt, in milliseconds.
+   */
+  initialDelay: number;
+
+  /**
+   * The upper bound of the delay between two attempts, in milliseconds.
+   */
+  maxDelay: number;
+
+  /**
+   * The factor the delay is multiplied by after each failed attempt.
+   */
+  multiplier: number;
+
+  /**
+   * The fraction of the delay (between 0 and 1) that is randomly added or
+   * removed, so that many clients do not retry at the same instant.
+   */
+  jitter: number;
+
+  /**
+   * The connection states, as listed within RemoteDesktopService.STATE,
+   * which trigger an automatic reconnection.
+   */
+  states: string[];
+}
+
+/**
+ * The policy in use until one is set through
+ * RemoteDesktopService.setReconnectPolicy(). Reconnection is opt-in.
+ */
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: false,
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+  states: ['CLIENT_ERROR', 'TUNNEL_ERROR'],
+};
+
+/**
+ * The progress of a pending automatic reconnection.
+ */
+export interface ReconnectStatus {
+  /**
+   * The number of the upcoming attempt, starting from 1.
+   */
+  attempt: number;
+
+  /**
+   * The maximum number of attempts allowed by the policy.
+   */
+  maxAttempts: number;
+
+  /**
+   * The number of milliseconds left before the upcoming attempt.
+   */
+  nextRetryIn: number;
+}
+
+/**
+ * Calculates the delay to wait before the given attempt, applying the
+ * exponential backoff and the jitter of the given policy.
+ *
+ * @param policy
+ *     The reconnect policy in use.
+ *
+ * @param attempt
+ *     The number of the upcoming attempt, starting from 1.
+ *
+ * @returns
+ *     The delay in milliseconds.
+ */
+export function computeReconnectDelay(policy: ReconnectPolicy, attempt: number): number {
+  const delay = Math.min(policy.initialDelay * Math.pow(policy.multiplier, attempt - 1), policy.maxDelay);
+  const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + jitter));
+}
@@ -0,0 +1,92 @@
+import {Inject, Injectable, Optional} from '@angular/core';
+import {RemoteDesktopService} from './remote-desktop.service';
+import {ManagedFilesystemService} from './managed-filesystem.service';
+import {TunnelRestApiService} from './tunnel-rest-api.service';
+import {KEY_INTERCEPTORS, KeyInterceptor} from './key-interceptor';
+
+/**
+ * Keeps track of the remote desktop sessions open at the same time.
+ *
+ * Each session is a RemoteDesktopService instance owning its own client,
+ * tunnel, filesystems and uploads. The root RemoteDesktopService is the
+ * default session, used by every component which is not given a session.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RemoteDesktopSessionRegistry {
+  /**
+   * The sessions created through this registry, by identifier
+   */
+  private sessions: { [id: string]: RemoteDesktopService } = {};
+
+  constructor(
+    private defaultSession: RemoteDesktopService,
+    private filesystemService: ManagedFilesystemService,
+    private tunnelRestApiService: TunnelRestApiService,
+    @Optional() @Inject(KEY_INTERCEPTORS) private keyInterceptors: KeyInterceptor[],
+  ) {
+  }
+
+  /**
+   * Get the default session, the one injected as RemoteDesktopService
+   */
+  getDefault(): RemoteDesktopService {
+    return this.defaultSession;
+  }
+
+  /**
+   * Create a new session. It still has to be initialized with a tunnel
+   * and connected, exactly like the default session.
+   *
+   * @param id
+   *     The identifier of the new session.
+   *
+   * @returns
+   *     The newly-created session.
+   */
+  create(id: string): RemoteDesktopService {
+    if (this.sessions[id]) {
+      throw new Error(`A remote desktop session with id '${id}' already exists`);
+    }
+    const session = new RemoteDesktopService(this.filesystemService, this.tunnelRestApiService, this.keyInterceptors);
+    this.sessions[id] = session;
+    return session;
+  }
+
+  /**
+   * Get the session with the given identifier
+   *
+   * @param id
+   *     The identifier of the session.
+   *
+   * @returns
+   *     The session, or undefined if there is no such session.
+   */
+  get(id: string): RemoteDesktopService {
+    return this.sessions[id];
+  }
+
+  /**
+   * Get the identifiers of all the sessions created through this registry
+   */
+  getIds(): string[] {
+    return Object.keys(this.sessions);
+  }
+
+  /**
+   * Disconnect the session with the given identifier, release everything it
+   * holds and forget about it
+   *
+   * @param id
+   *     The identifier of the session.
+   */
+  destroy(id: string): void {
+    const session = this.sessions[id];
+    if (!session) {
+      return;
+    }
+    session.dispose();
+    delete this.sessions[id];
+  }
+}
@@ -16,6 +16,13 @@ import {ToolbarItemComponent} from './toolbar-item/toolbar-item.component';
 import {FileManagerComponent} from './file-manager/file-manager.component';
 import {FileTransferManagerComponent} from './file-transfer-manager/file-transfer-manager.component';
 import {FileTransferComponent} from './file-transfer/file-transfer.component';
+import {ConnectionStatsComponent} from './connection-stats/connection-stats.component';
+import {PlayerComponent} from './player/player.component';
+import {OskComponent} from './osk/osk.component';
+import {KeyCombinationsComponent} from './key-combinations/key-combinations.component';
+import {VolumeControlComponent} from './volume-control/volume-control.component';
+import {MicrophoneToggleComponent} from './microphone-toggle/microphone-toggle.component';
+import {SharePanelComponent} from './share-panel/share-panel.component';
 
 @NgModule({
   declarations: [
@@ -31,6 +38,13 @@ import {FileTransferComponent} from './file-transfer/file-transfer.component';
     FileManagerComponent,
     FileTransferManagerComponent,
     FileTransferComponent,
+    ConnectionStatsComponent,
+    PlayerComponent,
+    OskComponent,
+    KeyCombinationsComponent,
+    VolumeControlComponent,
+    MicrophoneToggleComponent,
+    SharePanelComponent,
   ],
   imports: [CommonModule, BrowserAnimationsModule, HttpClientModule],
   exports: [
@@ -42,6 +56,13 @@ import {FileTransferComponent} from './file-transfer/file-transfer.component';
     StatusBarComponent,
     StatusBarItemComponent,
     FileManagerComponent,
+    ConnectionStatsComponent,
+    PlayerComponent,
+    OskComponent,
+    KeyCombinationsComponent,
+    VolumeControlComponent,
+    MicrophoneToggleComponent,
+    SharePanelComponent,
   ],
 })
 export class RemoteDesktopModule {}
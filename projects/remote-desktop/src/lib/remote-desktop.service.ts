@@ -1,14 +1,51 @@
-import {Injectable} from '@angular/core';
+import {Inject, Injectable, Optional} from '@angular/core';
 import {HttpParams} from '@angular/common/http';
-import {Client, InputStream, Object, Status, StringReader, Tunnel} from '@raytecvision/guacamole-common-js';
-import {BehaviorSubject, ReplaySubject, Subject, Observable} from 'rxjs';
+import {AudioPlayer, BlobReader, BlobWriter, Client, InputStream, Mouse, Object, Status, StringReader, Tunnel} from '@raytecvision/guacamole-common-js';
+import {BehaviorSubject, ReplaySubject, Subject, Observable, Subscription, timer} from 'rxjs';
+import {debounce, filter} from 'rxjs/operators';
 import {File as ManagedFile, FileType, ManagedFilesystem} from './managed-filesystem';
 import {ManagedFilesystemService} from './managed-filesystem.service';
 import {ManagedFileTransferState, ManagedFileUpload, StreamState} from './managed-file-upload';
 import {TunnelRestApiService} from './tunnel-rest-api.service';
+import {ConnectionError} from './connection-error';
+import {OutputStringWriter} from './guacamole-typings';
+import {ConnectionStats, ConnectionStatsMonitor} from './connection-stats';
+import {RecordingState, SessionRecorder} from './session-recorder';
+import {AudioOutput} from './audio-output';
+import {AudioInput, MicrophoneState} from './audio-input';
+import {InputPreferences, loadInputPreferences, saveInputPreferences} from './input-mode';
+import {ClipboardData, isImageMimetype, isSameClipboardData, isTextMimetype} from './clipboard-data';
+import {
+  ClipboardSyncStatus,
+  isLocalClipboardMimetype,
+  isLocalClipboardSupported,
+  readLocalClipboard,
+  writeLocalClipboard,
+} from './clipboard-sync';
+import {
+  applyClipboardPolicy,
+  BlockedClipboardTransfer,
+  ClipboardBlockReason,
+  ClipboardDirection,
+  ClipboardPolicy,
+  checkClipboardTransfer,
+  DEFAULT_CLIPBOARD_POLICY,
+  getClipboardDataSize,
+} from './clipboard-policy';
+import {AnyConnectionParameters, serializeConnectionParameters, validateConnectionParameters} from './connection-parameters';
+import {computeReconnectDelay, DEFAULT_RECONNECT_POLICY, ReconnectPolicy, ReconnectStatus} from './reconnect-policy';
+import {DEFAULT_IDLE_POLICY, IdlePolicy, IdleStatus} from './idle-policy';
+import {SHARE_KEY_PARAMETER} from './sharing';
+import {Keysym} from './keysyms';
+import {isCombinationPressed, KEY_INTERCEPTORS, KeyEvent, KeyInterceptor} from './key-interceptor';
+import {computeRemoteSize, DEFAULT_RESIZE_POLICY, RemoteSize, ResizePolicy} from './resize-policy';
 
 /**
  * Manages the connection to the remote desktop
+ *
+ * Every instance is a session with its own client, tunnel, filesystems and uploads.
+ * The root instance is the default session, further sessions are created through
+ * RemoteDesktopSessionRegistry.
  */
 @Injectable({
   providedIn: 'root',
@@ -55,8 +92,33 @@ export class RemoteDesktopService {
      * the tunnel. The associated error code is stored in statusCode.
      */
     TUNNEL_ERROR: 'TUNNEL_ERROR',
+
+    /**
+     * The machine connection is established, but no data has been received
+     * recently. The connection goes back to CONNECTED as soon as data resumes.
+     */
+    UNSTABLE: 'UNSTABLE',
   };
 
+  /**
+   * The default number of milliseconds without receiving any data before a
+   * connection is considered unstable. guacd keeps connections alive every
+   * 5 seconds, so anything shorter would flag healthy idle connections.
+   */
+  static DEFAULT_WATCHDOG_TIMEOUT = 7000;
+
+  /**
+   * The bounds and step of the display zoom
+   */
+  static MIN_ZOOM = 0.1;
+  static MAX_ZOOM = 4;
+  static ZOOM_STEP = 0.1;
+
+  /**
+   * The name of the hotkey releasing the pointer lock, emitted through onHotkey
+   */
+  static POINTER_LOCK_HOTKEY = 'POINTER_LOCK_RELEASE';
+
   /**
    * Remote desktop connection state observable
    * Subscribe to this if you want to be notified when the connection state changes
@@ -65,10 +127,22 @@ export class RemoteDesktopService {
 
   /**
    * Remote desktop clipboard observable.
-   * Subscribe to this if you want to be notified if text has been cut/copied within
-   * the remote desktop.
+   * Subscribe to this if you want to be notified if text, HTML or an image has been
+   * cut/copied within the remote desktop.
    */
-  public onRemoteClipboardData = new ReplaySubject(1);
+  public onRemoteClipboardData = new ReplaySubject<ClipboardData>(1);
+
+  /**
+   * Clipboard synchronization observable.
+   * Emits the synchronization status, as listed within ClipboardSyncStatus, whenever it changes.
+   */
+  public onClipboardSyncStatus = new BehaviorSubject<string>(ClipboardSyncStatus.DISABLED);
+
+  /**
+   * Blocked clipboard transfer observable.
+   * Emits every clipboard transfer blocked by the clipboard policy, so that it can be audited.
+   */
+  public onClipboardBlocked = new Subject<BlockedClipboardTransfer>();
 
   public onKeyboardReset = new BehaviorSubject<boolean>(true);
 
@@ -76,8 +150,103 @@ export class RemoteDesktopService {
 
   public onFullScreen = new BehaviorSubject<boolean>(false);
 
+  /**
+   * Pointer lock observable.
+   * Emits whether the pointer is locked to the display, in which case the mouse moves
+   * the remote cursor relatively, e.g. for 3D applications.
+   */
+  public onPointerLock = new BehaviorSubject<boolean>(false);
+
+  /**
+   * Read-only observable.
+   * Emits whether the session is view-only, in which case no input, clipboard
+   * contents or files are sent to the remote desktop.
+   */
+  public onReadOnly = new BehaviorSubject<boolean>(false);
+
+  /**
+   * @deprecated The messages of the component now call reconnect(), which creates a new
+   * client and tunnel, and no longer emit through this subject.
+   */
   public onReconnect = new Subject<boolean>();
 
+  /**
+   * Automatic reconnection observable.
+   * Emits the attempt count and the time left before the next attempt while
+   * a reconnection is pending, and null otherwise.
+   */
+  public onReconnectStatus = new BehaviorSubject<ReconnectStatus>(null);
+
+  /**
+   * Idle warning observable.
+   * Emits the time left before an idle session is disconnected every second
+   * during the warning period of the idle policy, and null otherwise.
+   */
+  public onIdleStatus = new BehaviorSubject<IdleStatus>(null);
+
+  /**
+   * Idle observable.
+   * Emits when the session is disconnected because the user has been idle for too long.
+   */
+  public onIdle = new Subject<void>();
+
+  /**
+   * Connection error observable.
+   * Emits the error which terminated the last connection, or null while no error occurred.
+   */
+  public onError = new BehaviorSubject<ConnectionError>(null);
+
+  /**
+   * Connection quality observable.
+   * Emits the frame delay, bandwidth, instruction rate and frame rate every second while connected,
+   * and null otherwise.
+   */
+  public onConnectionStats = new BehaviorSubject<ConnectionStats>(null);
+
+  /**
+   * Hotkey observable.
+   * Emits the name of a hotkey registered through registerHotkey() whenever it is typed.
+   */
+  public onHotkey = new Subject<string>();
+
+  /**
+   * Display zoom observable.
+   * Emits the scale factor the display is zoomed to, or null when the display
+   * follows its scale mode.
+   */
+  public onZoom = new BehaviorSubject<number>(null);
+
+  /**
+   * Touch input observable.
+   * Emits the touch input mode and drag lock setting of the user whenever they change.
+   * They are kept in the local storage of the browser.
+   */
+  public onInputPreferences = new BehaviorSubject<InputPreferences>(loadInputPreferences());
+
+  /**
+   * Audio volume observable.
+   * Emits the volume of the remote desktop audio, from 0 to 1, whenever it changes.
+   */
+  public onVolume = new BehaviorSubject<number>(1);
+
+  /**
+   * Audio mute observable.
+   * Emits whether the remote desktop audio is muted whenever it changes.
+   */
+  public onMuted = new BehaviorSubject<boolean>(false);
+
+  /**
+   * Microphone observable.
+   * Emits the state of the microphone redirection, as listed within MicrophoneState, whenever it changes.
+   */
+  public onMicrophoneState = new BehaviorSubject<string>(MicrophoneState.IDLE);
+
+  /**
+   * Client-side recording observable.
+   * Emits the recording state, as listed within RecordingState, whenever it changes.
+   */
+  public onRecordingStateChange = new BehaviorSubject<string>(RecordingState.IDLE);
+
   /**
    * When an instruction is received from the tunnel
    */
@@ -96,6 +265,156 @@ export class RemoteDesktopService {
    */
   private tunnel: Tunnel;
 
+  /**
+   * Provides the tunnel for every new client, so that a fresh client/tunnel
+   * pair can be created when reconnecting
+   */
+  private tunnelFactory: () => Tunnel;
+
+  /**
+   * The parameters of the last connection, re-issued when reconnecting
+   */
+  private parameters: AnyConnectionParameters = {};
+
+  /**
+   * The policy driving the automatic reconnection
+   */
+  private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+
+  /**
+   * The number of reconnection attempts made since the last successful connection
+   */
+  private reconnectAttempt = 0;
+
+  /**
+   * The pending reconnection, if any
+   */
+  private reconnectSubscription: Subscription;
+
+  /**
+   * Whether the current connection has been closed on purpose, in which case
+   * it must not be re-established automatically
+   */
+  private disconnectRequested = false;
+
+  /**
+   * The policy driving the disconnection of idle sessions
+   */
+  private idlePolicy: IdlePolicy = DEFAULT_IDLE_POLICY;
+
+  /**
+   * The local time of the last keyboard, mouse or touch input
+   */
+  private lastActivityTime = 0;
+
+  /**
+   * Checks for idle sessions while connected
+   */
+  private idleSubscription: Subscription;
+
+  /**
+   * The number of milliseconds without receiving any data before the
+   * connection is considered unstable, 0 to disable the watchdog
+   */
+  private watchdogTimeout = RemoteDesktopService.DEFAULT_WATCHDOG_TIMEOUT;
+
+  /**
+   * The local time the last instruction was received at
+   */
+  private lastInstructionTime = 0;
+
+  /**
+   * Checks for stalled tunnels while connected
+   */
+  private watchdogSubscription: Subscription;
+
+  /**
+   * Measures the traffic of the current connection
+   */
+  private statsMonitor = new ConnectionStatsMonitor();
+
+  /**
+   * Samples the connection statistics while connected
+   */
+  private statsSubscription: Subscription;
+
+  /**
+   * The subscriptions made for the lifetime of the session, ended by dispose()
+   */
+  private subscriptions = new Subscription();
+
+  /**
+   * The policy driving the resolution of the remote desktop
+   */
+  private resizePolicy: ResizePolicy = DEFAULT_RESIZE_POLICY;
+
+  /**
+   * The policy restricting the clipboard transfers
+   */
+  private clipboardPolicy: ClipboardPolicy = DEFAULT_CLIPBOARD_POLICY;
+
+  /**
+   * The last resolution requested for the remote desktop, if any
+   */
+  private remoteSize: RemoteSize = null;
+
+  /**
+   * The resolutions to send to the remote desktop, debounced
+   */
+  private resizeRequests = new Subject<RemoteSize>();
+
+  /**
+   * The hotkeys handled locally instead of being sent, by name
+   */
+  private hotkeys = new Map<string, number[]>();
+
+  /**
+   * The keysyms of the hotkey releasing the pointer lock
+   */
+  private pointerLockReleaseKeys = [Keysym.CONTROL_LEFT, Keysym.ALT_LEFT];
+
+  /**
+   * The keysyms held on the local keyboard
+   */
+  private pressedKeysyms: number[] = [];
+
+  /**
+   * The keysyms held on the remote desktop, once intercepted
+   */
+  private remotePressedKeysyms: number[] = [];
+
+  /**
+   * The keysyms held on the local keyboard which have typed a hotkey,
+   * whose release must not be sent either
+   */
+  private consumedKeysyms: number[] = [];
+
+  /**
+   * The clipboard contents last exchanged with the remote desktop, so that they are not sent back
+   */
+  private syncedClipboardData: ClipboardData = null;
+
+  /**
+   * Remote clipboard contents received while the page was not focused, written
+   * into the local clipboard once it is
+   */
+  private pendingLocalClipboardData: ClipboardData = null;
+
+  /**
+   * Records the received instructions on demand
+   */
+  private recorder = new SessionRecorder();
+
+  /**
+   * Plays back the received audio streams
+   */
+  private audioOutput = new AudioOutput();
+
+  /**
+   * Forwards the microphone on demand
+   */
+  private audioInput = new AudioInput();
+
   /**
    * All currently-exposed filesystems. When the Guacamole server exposes
    * a filesystem object, that object will be made available as a
@@ -115,16 +434,260 @@ export class RemoteDesktopService {
   constructor(
     private filesystemService: ManagedFilesystemService,
     private tunnelRestApiService: TunnelRestApiService,
+    @Optional() @Inject(KEY_INTERCEPTORS) private keyInterceptors?: KeyInterceptor[],
   ) {
+    this.keyInterceptors = this.keyInterceptors || [];
+    this.audioInput.onstatechange = state => this.onMicrophoneState.next(state);
+    this.subscriptions.add(this.onHotkey
+      .pipe(filter(name => name === RemoteDesktopService.POINTER_LOCK_HOTKEY))
+      .subscribe(() => this.setPointerLock(false)));
+    this.subscriptions.add(this.resizeRequests
+      .pipe(debounce(() => timer(this.resizePolicy.debounceTime)))
+      .subscribe(size => this.sendSize(size)));
   }
 
   /**
    * Set up the manager
-   * @param t  WebsocketTunnel, HTTPTunnel or ChainedTunnel
+   * @param t  WebsocketTunnel, HTTPTunnel or ChainedTunnel, or a function creating one.
+   *           When a function is given, every reconnection uses a brand new tunnel.
    */
-  public initialize(t: Tunnel) {
-    this.tunnel = t;
-    this.client = new Client(this.tunnel);
+  public initialize(t: Tunnel | (() => Tunnel)) {
+    this.tunnelFactory = typeof t === 'function' ? t : () => t;
+    this.createClient();
+  }
+
+  /**
+   * Set the policy used to automatically reconnect when the connection is lost
+   * @param policy The settings overriding the current policy
+   */
+  public setReconnectPolicy(policy: Partial<ReconnectPolicy>): void {
+    this.reconnectPolicy = {...this.reconnectPolicy, ...policy};
+  }
+
+  /**
+   * Get the policy used to automatically reconnect
+   */
+  public getReconnectPolicy(): ReconnectPolicy {
+    return this.reconnectPolicy;
+  }
+
+  /**
+   * Set the policy used to disconnect the session once the user is idle
+   * @param policy The settings overriding the current policy
+   */
+  public setIdlePolicy(policy: Partial<IdlePolicy>): void {
+    this.idlePolicy = {...this.idlePolicy, ...policy};
+    this.checkIdle();
+  }
+
+  /**
+   * Get the policy used to disconnect idle sessions
+   */
+  public getIdlePolicy(): IdlePolicy {
+    return this.idlePolicy;
+  }
+
+  /**
+   * Report keyboard, mouse or touch input from the user, which restarts the
+   * idle timeout and dismisses any idle warning
+   */
+  public reportActivity(): void {
+    this.lastActivityTime = Date.now();
+    if (this.onIdleStatus.getValue()) {
+      this.onIdleStatus.next(null);
+    }
+  }
+
+  /**
+   * Zoom the display to the given scale factor, overriding its scale mode
+   * @param zoom The scale factor, 1 being the original size
+   */
+  public setZoom(zoom: number): void {
+    const bounded = Math.min(Math.max(zoom, RemoteDesktopService.MIN_ZOOM), RemoteDesktopService.MAX_ZOOM);
+    this.onZoom.next(Math.round(bounded * 100) / 100);
+  }
+
+  /**
+   * Get the scale factor the display is zoomed to, or null when it follows its scale mode
+   */
+  public getZoom(): number {
+    return this.onZoom.getValue();
+  }
+
+  /**
+   * Zoom in, starting from the current scale of the display
+   */
+  public zoomIn(): void {
+    this.setZoom(this.getCurrentScale() + RemoteDesktopService.ZOOM_STEP);
+  }
+
+  /**
+   * Zoom out, starting from the current scale of the display
+   */
+  public zoomOut(): void {
+    this.setZoom(this.getCurrentScale() - RemoteDesktopService.ZOOM_STEP);
+  }
+
+  /**
+   * Stop zooming, the display follows its scale mode again
+   */
+  public resetZoom(): void {
+    this.onZoom.next(null);
+  }
+
+  /**
+   * Set how touching the display is interpreted, and keep it for the next sessions
+   * @param mode The touch input mode, as listed within InputMode
+   */
+  public setInputMode(mode: string): void {
+    this.setInputPreferences({...this.onInputPreferences.getValue(), mode});
+  }
+
+  /**
+   * Get how touching the display is interpreted, as listed within InputMode
+   */
+  public getInputMode(): string {
+    return this.onInputPreferences.getValue().mode;
+  }
+
+  /**
+   * Enable or disable the drag lock of the touchpad mode, and keep it for the next sessions
+   * @param dragLock
+   */
+  public setDragLock(dragLock: boolean): void {
+    this.setInputPreferences({...this.onInputPreferences.getValue(), dragLock});
+  }
+
+  /**
+   * Is the drag lock of the touchpad mode enabled?
+   */
+  public isDragLockEnabled(): boolean {
+    return this.onInputPreferences.getValue().dragLock;
+  }
+
+  /**
+   * Set the volume of the remote desktop audio
+   * @param volume The volume, from 0 to 1
+   */
+  public setVolume(volume: number): void {
+    this.onVolume.next(Math.min(Math.max(volume, 0), 1));
+    this.audioOutput.setVolume(this.getVolume(), this.isMuted());
+  }
+
+  /**
+   * Get the volume of the remote desktop audio, from 0 to 1
+   */
+  public getVolume(): number {
+    return this.onVolume.getValue();
+  }
+
+  /**
+   * Mute or unmute the remote desktop audio, keeping its volume
+   * @param muted
+   */
+  public setMuted(muted: boolean): void {
+    this.onMuted.next(muted);
+    this.audioOutput.setVolume(this.getVolume(), this.isMuted());
+  }
+
+  /**
+   * Is the remote desktop audio muted?
+   */
+  public isMuted(): boolean {
+    return this.onMuted.getValue();
+  }
+
+  /**
+   * Mute the remote desktop audio if it is not, otherwise unmute it
+   */
+  public toggleMute(): void {
+    this.setMuted(!this.isMuted());
+  }
+
+  /**
+   * Forward the microphone to the remote desktop, once the user permits it.
+   * The connection must have audio input enabled, e.g. with the "enable-audio-input" RDP parameter.
+   */
+  public startMicrophone(): void {
+    if (this.isConnected() && !this.isReadOnly()) {
+      this.audioInput.start(this.client);
+    }
+  }
+
+  /**
+   * Stop forwarding the microphone and release it
+   */
+  public stopMicrophone(): void {
+    this.audioInput.stop();
+  }
+
+  /**
+   * Is the microphone forwarded, or about to be once the user permits it?
+   */
+  public isMicrophoneActive(): boolean {
+    const state = this.audioInput.getState();
+    return state === MicrophoneState.REQUESTING || state === MicrophoneState.LIVE;
+  }
+
+  /**
+   * Stop forwarding the microphone if it is, otherwise start
+   */
+  public toggleMicrophone(): void {
+    if (this.isMicrophoneActive()) {
+      this.stopMicrophone();
+    } else {
+      this.startMicrophone();
+    }
+  }
+
+  /**
+   * Set the policy deciding whether the resolution of the remote desktop follows the viewport
+   * @param policy The settings overriding the current policy
+   */
+  public setResizePolicy(policy: Partial<ResizePolicy>): void {
+    this.resizePolicy = {...this.resizePolicy, ...policy};
+    this.remoteSize = null;
+  }
+
+  /**
+   * Get the policy deciding whether the resolution of the remote desktop follows the viewport
+   */
+  public getResizePolicy(): ResizePolicy {
+    return this.resizePolicy;
+  }
+
+  /**
+   * Set the policy restricting the clipboard transfers in and out of the remote desktop
+   * @param policy The settings overriding the current policy
+   */
+  public setClipboardPolicy(policy: Partial<ClipboardPolicy>): void {
+    this.clipboardPolicy = {...this.clipboardPolicy, ...policy};
+  }
+
+  /**
+   * Get the policy restricting the clipboard transfers in and out of the remote desktop
+   */
+  public getClipboardPolicy(): ClipboardPolicy {
+    return this.clipboardPolicy;
+  }
+
+  /**
+   * Resize the remote desktop to fit a viewport of the given size, if enabled by the resize policy.
+   * The new resolution is sent once the size has settled. The same resolution is also used
+   * by the next connections, unless their parameters specify one.
+   * @param width  The width of the viewport in CSS pixels
+   * @param height The height of the viewport in CSS pixels
+   */
+  public requestRemoteResize(width: number, height: number): void {
+    if (!this.resizePolicy.enabled || width <= 0 || height <= 0) {
+      return;
+    }
+    const size = computeRemoteSize(this.resizePolicy, width, height, window.devicePixelRatio);
+    if (this.remoteSize && this.remoteSize.width === size.width && this.remoteSize.height === size.height) {
+      return;
+    }
+    this.remoteSize = size;
+    this.resizeRequests.next(size);
   }
 
   /**
@@ -165,15 +728,107 @@ export class RemoteDesktopService {
     return this.onFullScreen.getValue();
   }
 
+  /**
+   * Lock the pointer to the display, or release it. The hotkey set through
+   * setPointerLockReleaseKeys() releases it as well.
+   * @param locked
+   */
+  public setPointerLock(locked: boolean): void {
+    if (locked && this.isReadOnly()) {
+      return;
+    }
+    if (locked) {
+      this.registerHotkey(RemoteDesktopService.POINTER_LOCK_HOTKEY, this.pointerLockReleaseKeys);
+    } else {
+      this.unregisterHotkey(RemoteDesktopService.POINTER_LOCK_HOTKEY);
+    }
+    if (locked !== this.isPointerLocked()) {
+      this.onPointerLock.next(locked);
+    }
+  }
+
+  /**
+   * Is the pointer locked to the display?
+   */
+  public isPointerLocked(): boolean {
+    return this.onPointerLock.getValue();
+  }
+
+  /**
+   * Set the hotkey releasing the pointer lock, Ctrl+Alt by default
+   * @param keysyms The keysyms of the keys, left-hand modifiers standing for either side
+   */
+  public setPointerLockReleaseKeys(keysyms: number[]): void {
+    this.pointerLockReleaseKeys = keysyms;
+    if (this.isPointerLocked()) {
+      this.registerHotkey(RemoteDesktopService.POINTER_LOCK_HOTKEY, keysyms);
+    }
+  }
+
+  /**
+   * Get the keysyms of the hotkey releasing the pointer lock
+   */
+  public getPointerLockReleaseKeys(): number[] {
+    return this.pointerLockReleaseKeys;
+  }
+
+  /**
+   * Make the session view-only, or give back control. Switching takes effect
+   * immediately, without reconnecting: the keys and mouse buttons held are released,
+   * and so are the pointer lock and the microphone. The remote desktop is not resized
+   * while view-only; the last requested resolution is sent once control is given back.
+   * @param readOnly
+   */
+  public setReadOnly(readOnly: boolean): void {
+    if (readOnly === this.isReadOnly()) {
+      return;
+    }
+    if (readOnly) {
+      this.resetKeyboard();
+      [...this.remotePressedKeysyms].reverse().forEach(keysym => this.sendRemoteKeyEvent(false, keysym));
+      this.releaseMouseButtons();
+      this.setPointerLock(false);
+      this.stopMicrophone();
+    }
+    this.onReadOnly.next(readOnly);
+    if (!readOnly && this.isConnected() && this.remoteSize) {
+      this.resizeRequests.next(this.remoteSize);
+    }
+  }
+
+  /**
+   * Is the session view-only?
+   */
+  public isReadOnly(): boolean {
+    return this.onReadOnly.getValue();
+  }
+
   /**
    * Is the tunnel connected?
+   * An unstable connection is still connected.
    */
   public isConnected(): boolean {
     return (
-      this.onStateChange.getValue() === RemoteDesktopService.STATE.CONNECTED
+      this.onStateChange.getValue() === RemoteDesktopService.STATE.CONNECTED ||
+      this.onStateChange.getValue() === RemoteDesktopService.STATE.UNSTABLE
     );
   }
 
+  /**
+   * Set how long the tunnel may stay silent before the connection is considered unstable
+   * @param timeout Number of milliseconds, 0 to disable the watchdog
+   */
+  public setWatchdogTimeout(timeout: number): void {
+    this.watchdogTimeout = timeout;
+  }
+
+  /**
+   * Get the error which terminated the last connection, if any
+   */
+  public getError(): ConnectionError {
+    return this.onError.getValue();
+  }
+
   /**
    * Get the guacamole client
    */
@@ -228,31 +883,220 @@ export class RemoteDesktopService {
       );
       return thumbnail.toDataURL('image/png');
     }
-    return null;
+    return null;
+  }
+
+  /**
+   * Generate a screenshot
+   * @param {blob} done Callback with the screenshot blob data
+   */
+  public createScreenshot(done: any): void {
+    const display = this.client.getDisplay();
+    if (display && display.getWidth() > 0 && display.getHeight() > 0) {
+      const canvas = display.flatten();
+      return canvas.toBlob(done);
+    }
+    done(null);
+  }
+
+  /**
+   * Start recording the session on the client side.
+   * The current content of the display is recorded first, so that the recording
+   * does not start from a blank screen.
+   */
+  public startRecording(): void {
+    if (this.recorder.state !== RecordingState.IDLE) {
+      throw new Error('The session is already being recorded');
+    }
+    this.recorder.start(this.getDisplaySnapshot());
+    this.onRecordingStateChange.next(this.recorder.state);
+  }
+
+  /**
+   * Suspend the recording. The time spent paused is left out of the recording.
+   */
+  public pauseRecording(): void {
+    this.recorder.pause();
+    this.onRecordingStateChange.next(this.recorder.state);
+  }
+
+  /**
+   * Resume a suspended recording.
+   * The current content of the display is recorded first, as what was drawn
+   * while paused is missing from the recording.
+   */
+  public resumeRecording(): void {
+    this.recorder.resume(this.getDisplaySnapshot());
+    this.onRecordingStateChange.next(this.recorder.state);
+  }
+
+  /**
+   * Stop recording the session
+   * @returns {Blob} The recording as a Guacamole protocol dump, playable like the recordings made by guacd
+   */
+  public stopRecording(): Blob {
+    if (this.recorder.state === RecordingState.IDLE) {
+      throw new Error('The session is not being recorded');
+    }
+    const recording = this.recorder.stop();
+    this.onRecordingStateChange.next(this.recorder.state);
+    return recording;
+  }
+
+  /**
+   * Send a key typed on the local keyboard to the remote desktop, unless it
+   * completes a hotkey. The key goes through the key interceptors first,
+   * which may drop, remap or expand it.
+   * @param pressed Whether the key is pressed or released
+   * @param keysym  The keysym of the key
+   */
+  public handleKeyEvent(pressed: boolean, keysym: number): void {
+    if (this.isReadOnly()) {
+      return;
+    }
+    if (pressed) {
+      if (!this.pressedKeysyms.includes(keysym)) {
+        this.pressedKeysyms.push(keysym);
+      }
+      const hotkey = Array.from(this.hotkeys.keys()).find(name =>
+        isCombinationPressed(this.hotkeys.get(name), this.pressedKeysyms));
+      if (hotkey) {
+        this.consumeHotkey(hotkey);
+        return;
+      }
+    } else {
+      this.pressedKeysyms = this.pressedKeysyms.filter(pressedKeysym => pressedKeysym !== keysym);
+      if (this.consumedKeysyms.includes(keysym)) {
+        this.consumedKeysyms = this.consumedKeysyms.filter(consumedKeysym => consumedKeysym !== keysym);
+        return;
+      }
+    }
+
+    let events: KeyEvent[] = [{pressed, keysym}];
+    for (const interceptor of this.keyInterceptors) {
+      events = events.reduce((intercepted, event) =>
+        intercepted.concat(interceptor.intercept(event, this.pressedKeysyms)), []);
+    }
+    events.forEach(event => this.sendRemoteKeyEvent(event.pressed, event.keysym));
+  }
+
+  /**
+   * Register a hotkey, handled locally instead of being sent to the remote desktop.
+   * Typing it emits its name through onHotkey.
+   * @param name    The name of the hotkey
+   * @param keysyms The keysyms of the keys, left-hand modifiers standing for either side
+   */
+  public registerHotkey(name: string, keysyms: number[]): void {
+    this.hotkeys.set(name, keysyms);
+  }
+
+  /**
+   * Unregister a hotkey
+   * @param name The name of the hotkey
+   */
+  public unregisterHotkey(name: string): void {
+    this.hotkeys.delete(name);
+  }
+
+  /**
+   * Send a key combination to the remote desktop, such as Ctrl+Alt+Del, which
+   * could not be typed because the browser or the operating system handles it.
+   * The keys are pressed in the given order and released in the reverse order,
+   * going through the hotkeys and the key interceptors like the typed keys.
+   * @param keysyms The keysyms of the keys, e.g. the keysyms of a KeyCombination
+   */
+  public sendKeyCombination(keysyms: number[]): void {
+    if (!this.isConnected() || this.isReadOnly()) {
+      return;
+    }
+    keysyms.forEach(keysym => this.handleKeyEvent(true, keysym));
+    [...keysyms].reverse().forEach(keysym => this.handleKeyEvent(false, keysym));
+  }
+
+  /**
+   * Send text, HTML or an image to the remote clipboard, unless the clipboard policy
+   * forbids it or the session is view-only
+   * @param data Clipboard text to send, or contents of any other mimetype
+   */
+  public sendRemoteClipboardData(data: string | ClipboardData) {
+    const clipboard = this.applyClipboardPolicy(
+      typeof data === 'string' ? {mimetype: 'text/plain', data} : data, ClipboardDirection.IN);
+    if (!clipboard) {
+      return;
+    }
+    this.onRemoteClipboardData.next(clipboard);
+    if (!this.isConnected()) {
+      return;
+    }
+
+    const stream = this.client.createClipboardStream(clipboard.mimetype);
+    if (typeof clipboard.data === 'string') {
+      const writer = new OutputStringWriter(stream);
+      writer.sendText(clipboard.data);
+      writer.sendEnd();
+    } else {
+      const writer = new BlobWriter(stream);
+      writer.oncomplete = () => writer.sendEnd();
+      writer.onerror = () => writer.sendEnd();
+      writer.sendBlob(clipboard.data);
+    }
   }
 
   /**
-   * Generate a screenshot
-   * @param {blob} done Callback with the screenshot blob data
+   * Enable or disable the automatic synchronization of the local and remote clipboards.
+   * When enabled, the local clipboard is sent whenever the display gains focus
+   * and remote clipboard text is written into the local clipboard, as far as
+   * the browser permits it.
+   * @param enabled
    */
-  public createScreenshot(done: any): void {
-    const display = this.client.getDisplay();
-    if (display && display.getWidth() > 0 && display.getHeight() > 0) {
-      const canvas = display.flatten();
-      return canvas.toBlob(done);
+  public setClipboardSync(enabled: boolean): void {
+    this.pendingLocalClipboardData = null;
+    if (!enabled) {
+      this.onClipboardSyncStatus.next(ClipboardSyncStatus.DISABLED);
+    } else if (!isLocalClipboardSupported()) {
+      this.onClipboardSyncStatus.next(ClipboardSyncStatus.UNSUPPORTED);
+    } else {
+      this.onClipboardSyncStatus.next(ClipboardSyncStatus.ACTIVE);
+      this.syncLocalClipboard();
     }
-    done(null);
   }
 
   /**
-   * Send text to the remote clipboard
-   * @param {string} text Clipboard text to send
+   * Is the clipboard synchronization enabled, even if the browser denies it?
+   */
+  public isClipboardSyncEnabled(): boolean {
+    return this.onClipboardSyncStatus.getValue() !== ClipboardSyncStatus.DISABLED;
+  }
+
+  /**
+   * Send the local clipboard to the remote desktop if it changed, when the
+   * clipboard synchronization is enabled
+   * @param pasted The contents of a paste event, sent instead of reading the local clipboard
    */
-  public sendRemoteClipboardData(text: string) {
-    if (text) {
-      this.onRemoteClipboardData.next(text);
-      this.client.setClipboard(text);
+  public syncLocalClipboard(pasted?: ClipboardData): void {
+    const status = this.onClipboardSyncStatus.getValue();
+    if (status === ClipboardSyncStatus.DISABLED || !this.isConnected() || this.isReadOnly()) {
+      return;
+    }
+    if (pasted !== undefined) {
+      this.sendSyncedClipboardData(pasted);
+      return;
     }
+    if (status === ClipboardSyncStatus.UNSUPPORTED) {
+      return;
+    }
+
+    // The remote clipboard is newer than the local one
+    if (this.pendingLocalClipboardData !== null) {
+      this.writeSyncedClipboardData(this.pendingLocalClipboardData);
+      return;
+    }
+    readLocalClipboard()
+      .then(data => {
+        this.setClipboardSyncStatus(ClipboardSyncStatus.ACTIVE);
+        this.sendSyncedClipboardData(data);
+      })
+      .catch(err => this.handleClipboardSyncError(err));
   }
 
   /**
@@ -265,18 +1109,80 @@ export class RemoteDesktopService {
 
   /**
    * Disconnect from the remote desktop
+   * The connection will not be re-established automatically
    */
   public disconnect(): void {
+    this.disconnectRequested = true;
+    this.cancelReconnect();
     this.client.disconnect();
+    this.audioOutput.close();
+  }
+
+  /**
+   * Disconnect and release everything held by the session: its timers, its subscriptions,
+   * the microphone and the audio output. The session must not be used afterwards.
+   */
+  public dispose(): void {
+    if (this.client) {
+      this.disconnect();
+    }
+    this.stopMicrophone();
+    this.audioOutput.close();
+    [this.idleSubscription, this.watchdogSubscription, this.statsSubscription]
+      .filter(subscription => !!subscription)
+      .forEach(subscription => subscription.unsubscribe());
+    this.idleSubscription = null;
+    this.watchdogSubscription = null;
+    this.statsSubscription = null;
+    this.subscriptions.unsubscribe();
   }
 
   /**
    * Connect to the remote desktop
+   * Any pending automatic reconnection is cancelled, and the reconnect policy starts over
+   * with all its attempts.
+   * @param parameters Connection parameters, preferably built with vncParameters(), rdpParameters()...
+   * @throws Error if the parameters are invalid, before the tunnel is opened
    */
-  public connect(parameters = {}): void {
-    const configuration = this.buildParameters(parameters);
-    this.client.connect(configuration);
-    this.bindEventHandlers();
+  public connect(parameters: AnyConnectionParameters = {}): void {
+    validateConnectionParameters(parameters);
+    this.reconnectAttempt = 0;
+    this.cancelReconnect();
+    this.openConnection(parameters);
+  }
+
+  /**
+   * Join a session shared by another user, to watch or co-control it as
+   * permitted by the sharing profile the share key was generated for
+   * @param shareKey   The share key, e.g. taken from a share link
+   * @param parameters Further connection parameters expected by the tunnel backend, such as the token
+   */
+  public joinSharedSession(shareKey: string, parameters: AnyConnectionParameters = {}): void {
+    if (!shareKey) {
+      throw new Error('A share key is required to join a shared session');
+    }
+    this.connect({...parameters, [SHARE_KEY_PARAMETER]: shareKey});
+  }
+
+  /**
+   * Create a new client and tunnel and connect again with the last connection parameters
+   */
+  public reconnect(): void {
+    this.reconnectAttempt = 0;
+    this.restartClient();
+  }
+
+  /**
+   * Cancel the pending automatic reconnection, if any
+   */
+  public cancelReconnect(): void {
+    if (this.reconnectSubscription) {
+      this.reconnectSubscription.unsubscribe();
+      this.reconnectSubscription = null;
+    }
+    if (this.onReconnectStatus.getValue()) {
+      this.onReconnectStatus.next(null);
+    }
   }
 
   /**
@@ -295,12 +1201,21 @@ export class RemoteDesktopService {
    *     The directory within the given filesystem to upload the file to. If
    *     not specified, but a filesystem is given, the current directory of
    *     that filesystem will be used.
+   *
+   * @return
+   *     The upload, which fails at once if the session is view-only.
    */
   public uploadFile(file: File, fs: ManagedFilesystem, directory: ManagedFile): ManagedFileUpload {
     if (directory.type !== FileType.DIRECTORY) {
       throw new Error('upload destination is not a directory')
     }
 
+    if (this.isReadOnly()) {
+      const refused = this.createRefusedUploadInstance(file);
+      this.uploads.push(refused);
+      return refused;
+    }
+
     // Use generic Guacamole file streams by default
     let object: Object = null;
     let streamName: string = null;
@@ -333,6 +1248,24 @@ export class RemoteDesktopService {
     });
   }
 
+  /**
+   * Creates a new ManagedFileUpload of the given file which failed at once,
+   * as files may not be sent into a view-only session.
+   *
+   * @param file
+   *     The file refused.
+   */
+  private createRefusedUploadInstance(file: File): ManagedFileUpload {
+    const managedFileUpload = new ManagedFileUpload({
+      filename: file.name,
+      mimetype: file.type,
+      progress: 0,
+      length: file.size,
+    });
+    managedFileUpload.transferState.setStreamState(StreamState.ERROR, Status.Code.CLIENT_FORBIDDEN);
+    return managedFileUpload;
+  }
+
   /**
    * Creates a new ManagedFileUpload which uploads the given file to the
    * server through the given Guacamole client.
@@ -415,12 +1348,270 @@ export class RemoteDesktopService {
     return managedFileUpload;
   }
 
+  /**
+   * Create the client, along with its tunnel
+   */
+  private createClient(): void {
+    // The audio of the former client, if any, must not outlive it
+    this.audioOutput.close();
+    const tunnel = this.tunnelFactory();
+    if (tunnel !== this.tunnel) {
+      this.bindTunnelOutput(tunnel);
+    }
+    this.tunnel = tunnel;
+    this.client = new Client(this.tunnel);
+    this.bindTunnelInput(this.tunnel);
+    this.pressedKeysyms = [];
+    this.remotePressedKeysyms = [];
+    this.consumedKeysyms = [];
+  }
+
+  /**
+   * Override the tunnel output so that sent instructions can be measured.
+   * This is done once per tunnel, as the same tunnel may be reused by several clients.
+   * @param tunnel The tunnel to override
+   */
+  private bindTunnelOutput(tunnel: Tunnel): void {
+    tunnel.sendMessage = ((sendMessage) => {
+      return (...elements: any[]) => {
+        sendMessage.apply(tunnel, elements);
+        this.statsMonitor.recordOutbound(elements);
+      };
+    })(tunnel.sendMessage);
+  }
+
+  /**
+   * Override the tunnel instruction handler so that received instructions can be
+   * measured, recorded and emitted. The client installs its handler on the tunnel
+   * when created, so this is done once per client: connecting the same client again
+   * must not wrap the handler twice.
+   * @param tunnel The tunnel of the client
+   */
+  private bindTunnelInput(tunnel: Tunnel): void {
+    tunnel.oninstruction = ((oninstruction) => {
+      return (opcode: string, parameters: any) => {
+        oninstruction(opcode, parameters);
+        this.lastInstructionTime = Date.now();
+        if (this.isState(RemoteDesktopService.STATE.UNSTABLE)) {
+          this.setState(RemoteDesktopService.STATE.CONNECTED);
+        }
+        this.statsMonitor.recordInbound(opcode, parameters);
+        this.recorder.record(opcode, parameters);
+        this.onTunnelInstruction.next({opcode, parameters});
+      };
+    })(tunnel.oninstruction);
+  }
+
+  /**
+   * Replace the client with a new one connected with the last connection parameters
+   */
+  private restartClient(): void {
+    // Closing the current client must not schedule another reconnection
+    this.disconnectRequested = true;
+    this.client.disconnect();
+    this.cancelReconnect();
+    this.createClient();
+    this.openConnection(this.parameters);
+  }
+
+  /**
+   * Connect the client with the given parameters, keeping the count of reconnection attempts
+   * @param parameters The validated connection parameters
+   */
+  private openConnection(parameters: AnyConnectionParameters): void {
+    this.parameters = parameters;
+    this.disconnectRequested = false;
+    this.onError.next(null);
+    const configuration = this.buildParameters(parameters);
+    this.client.connect(configuration);
+    this.bindEventHandlers();
+  }
+
   /**
    * Set the connection state and emit the new state to any subscribers
    * @param state Connection state
    */
   private setState(state: string): void {
+    const previousState = this.getState();
     this.onStateChange.next(state);
+    this.handleWatchdog(state);
+    this.handleIdle();
+    this.handleConnectionStats(state);
+    this.handleReconnect(state);
+    this.handleResize(state, previousState);
+    this.handleMicrophone();
+    this.handleAudioOutput();
+    this.handlePointerLock();
+  }
+
+  /**
+   * Release the microphone once disconnected
+   */
+  private handleMicrophone(): void {
+    if (!this.isConnected() && this.isMicrophoneActive()) {
+      this.audioInput.stop();
+    }
+  }
+
+  /**
+   * Close the AudioContext once disconnected, whether on purpose or not, as browsers
+   * limit the number of AudioContexts open at the same time
+   */
+  private handleAudioOutput(): void {
+    if (!this.isConnected()) {
+      this.audioOutput.close();
+    }
+  }
+
+  /**
+   * Release the pointer lock once the connection is lost
+   */
+  private handlePointerLock(): void {
+    if (!this.isConnected() && this.isPointerLocked()) {
+      this.setPointerLock(false);
+    }
+  }
+
+  /**
+   * Send the requested resolution once connected, in case it changed while connecting
+   * @param state         The new connection state
+   * @param previousState The former connection state
+   */
+  private handleResize(state: string, previousState: string): void {
+    if (state === RemoteDesktopService.STATE.CONNECTED &&
+      previousState !== RemoteDesktopService.STATE.UNSTABLE && this.remoteSize) {
+      this.resizeRequests.next(this.remoteSize);
+    }
+  }
+
+  /**
+   * Watch for stalled tunnels while connected
+   * @param state The new connection state
+   */
+  private handleWatchdog(state: string): void {
+    if (this.isConnected()) {
+      if (!this.watchdogSubscription) {
+        this.lastInstructionTime = Date.now();
+        this.watchdogSubscription = timer(1000, 1000).subscribe(() => this.checkWatchdog());
+      }
+      return;
+    }
+    if (this.watchdogSubscription) {
+      this.watchdogSubscription.unsubscribe();
+      this.watchdogSubscription = null;
+    }
+  }
+
+  /**
+   * Flag the connection as unstable if no data has been received for too long
+   */
+  private checkWatchdog(): void {
+    if (!this.watchdogTimeout || !this.isState(RemoteDesktopService.STATE.CONNECTED)) {
+      return;
+    }
+    if (Date.now() - this.lastInstructionTime > this.watchdogTimeout) {
+      this.setState(RemoteDesktopService.STATE.UNSTABLE);
+    }
+  }
+
+  /**
+   * Watch for idle sessions while connected
+   */
+  private handleIdle(): void {
+    if (this.isConnected()) {
+      if (!this.idleSubscription) {
+        this.lastActivityTime = Date.now();
+        this.idleSubscription = timer(1000, 1000).subscribe(() => this.checkIdle());
+      }
+      return;
+    }
+    if (this.idleSubscription) {
+      this.idleSubscription.unsubscribe();
+      this.idleSubscription = null;
+    }
+    if (this.onIdleStatus.getValue()) {
+      this.onIdleStatus.next(null);
+    }
+  }
+
+  /**
+   * Warn the user during the warning period of the idle policy, then
+   * disconnect once the user has been idle for too long
+   */
+  private checkIdle(): void {
+    const policy = this.idlePolicy;
+    if (!policy.enabled || !this.idleSubscription) {
+      if (this.onIdleStatus.getValue()) {
+        this.onIdleStatus.next(null);
+      }
+      return;
+    }
+    const disconnectIn = this.lastActivityTime + policy.timeout - Date.now();
+    if (disconnectIn <= 0) {
+      this.onIdleStatus.next(null);
+      this.onIdle.next();
+      this.disconnect();
+    } else if (disconnectIn <= policy.warningTime) {
+      this.onIdleStatus.next({disconnectIn});
+    } else if (this.onIdleStatus.getValue()) {
+      this.onIdleStatus.next(null);
+    }
+  }
+
+  /**
+   * Sample the connection statistics every second while connected
+   * @param state The new connection state
+   */
+  private handleConnectionStats(state: string): void {
+    if (this.isConnected()) {
+      if (!this.statsSubscription) {
+        this.statsMonitor = new ConnectionStatsMonitor();
+        this.statsSubscription = timer(1000, 1000).subscribe(() => {
+          this.onConnectionStats.next(this.statsMonitor.sample());
+        });
+      }
+      return;
+    }
+    if (this.statsSubscription) {
+      this.statsSubscription.unsubscribe();
+      this.statsSubscription = null;
+      this.onConnectionStats.next(null);
+    }
+  }
+
+  /**
+   * Schedule an automatic reconnection if the reconnect policy asks for it
+   * @param state The new connection state
+   */
+  private handleReconnect(state: string): void {
+    if (state === RemoteDesktopService.STATE.CONNECTED) {
+      this.reconnectAttempt = 0;
+      return;
+    }
+
+    const policy = this.reconnectPolicy;
+    if (!policy.enabled || this.disconnectRequested || this.reconnectSubscription || policy.states.indexOf(state) === -1) {
+      return;
+    }
+
+    // Give up once all the attempts have been spent
+    if (this.reconnectAttempt >= policy.maxAttempts) {
+      return;
+    }
+
+    this.reconnectAttempt++;
+    const attempt = this.reconnectAttempt;
+    const deadline = Date.now() + computeReconnectDelay(policy, attempt);
+
+    // Count down every second, then reconnect
+    this.reconnectSubscription = timer(0, 1000).subscribe(() => {
+      this.onReconnectStatus.next({
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        nextRetryIn: Math.max(0, deadline - Date.now()),
+      });
+    });
+    this.reconnectSubscription.add(timer(deadline - Date.now()).subscribe(() => this.restartClient()));
   }
 
   /**
@@ -429,8 +1620,21 @@ export class RemoteDesktopService {
    * @param mimetype
    */
   private handleClipboard(stream: any, mimetype: string): void {
+    if (!isTextMimetype(mimetype) && !isImageMimetype(mimetype)) {
+      stream.sendAck('Unsupported clipboard mimetype', Status.Code.UNSUPPORTED);
+      return;
+    }
+
+    // Refuse the stream at once if the clipboard policy blocks it whatever its contents
+    const reason = checkClipboardTransfer(this.clipboardPolicy, mimetype, ClipboardDirection.OUT);
+    if (reason) {
+      stream.sendAck('Clipboard transfer blocked', Status.Code.CLIENT_FORBIDDEN);
+      this.reportBlockedClipboard(ClipboardDirection.OUT, reason, mimetype, 0);
+      return;
+    }
+
     // If the received data is text, read it as a simple string
-    if (/^text\//.exec(mimetype)) {
+    if (isTextMimetype(mimetype)) {
       const reader = new StringReader(stream);
 
       // Assemble received data into a single string
@@ -438,8 +1642,105 @@ export class RemoteDesktopService {
       reader.ontext = (text: string) => (data += text);
 
       // Set clipboard contents once stream is finished
-      reader.onend = () => this.onRemoteClipboardData.next(data);
+      reader.onend = () => this.receiveClipboardData({mimetype, data});
+    } else {
+      const reader = new BlobReader(stream, mimetype);
+      reader.onend = () => this.receiveClipboardData({mimetype, data: reader.getBlob()});
+    }
+    this.limitClipboardStream(stream, mimetype);
+  }
+
+  /**
+   * Abort the given clipboard stream as soon as it exceeds the largest size
+   * permitted by the clipboard policy, rather than once fully received
+   * @param stream   The clipboard stream, already read by a reader
+   * @param mimetype The mimetype of the clipboard contents
+   */
+  private limitClipboardStream(stream: any, mimetype: string): void {
+    const maxSize = this.clipboardPolicy.maxSize;
+    if (typeof maxSize !== 'number') {
+      return;
+    }
+    const onblob = stream.onblob;
+    let size = 0;
+    stream.onblob = (data: string) => {
+      size += atob(data).length;
+      if (size <= maxSize) {
+        onblob(data);
+        return;
+      }
+      stream.onblob = null;
+      stream.onend = null;
+      stream.sendAck('Clipboard contents too large', Status.Code.CLIENT_FORBIDDEN);
+      this.reportBlockedClipboard(ClipboardDirection.OUT, ClipboardBlockReason.SIZE, mimetype, size);
+    };
+  }
+
+  /**
+   * Emit the received clipboard contents and write them into the local
+   * clipboard when it is kept in sync, unless the clipboard policy forbids it
+   * @param received
+   */
+  private receiveClipboardData(received: ClipboardData): void {
+    const data = this.applyClipboardPolicy(received, ClipboardDirection.OUT);
+    if (!data) {
+      return;
+    }
+    this.onRemoteClipboardData.next(data);
+    const status = this.onClipboardSyncStatus.getValue();
+    if (status !== ClipboardSyncStatus.DISABLED && status !== ClipboardSyncStatus.UNSUPPORTED
+      && isLocalClipboardMimetype(data.mimetype)) {
+      this.writeSyncedClipboardData(data);
+    }
+  }
+
+  /**
+   * Get the current content of the display, or null if there is nothing to show yet
+   */
+  private getDisplaySnapshot(): HTMLCanvasElement {
+    const display = this.client.getDisplay();
+    return display && display.getWidth() > 0 && display.getHeight() > 0 ? display.flatten() : null;
+  }
+
+  /**
+   * Apply the clipboard policy to a transfer, reporting it if blocked
+   * @param data      The clipboard contents
+   * @param direction The direction of the transfer, as listed within ClipboardDirection
+   * @returns The contents to transfer, or null if the transfer is blocked
+   */
+  private applyClipboardPolicy(data: ClipboardData, direction: string): ClipboardData {
+    if (!data || !data.data) {
+      return null;
+    }
+    const result = direction === ClipboardDirection.IN && this.isReadOnly()
+      ? {data: null, reason: ClipboardBlockReason.READ_ONLY}
+      : applyClipboardPolicy(this.clipboardPolicy, data, direction);
+    if (result.reason) {
+      this.reportBlockedClipboard(direction, result.reason, data.mimetype, getClipboardDataSize(data));
+      return null;
     }
+    return result.data;
+  }
+
+  /**
+   * Emit a clipboard transfer blocked by the clipboard policy
+   * @param direction The direction of the transfer, as listed within ClipboardDirection
+   * @param reason    The reason the transfer is blocked, as listed within ClipboardBlockReason
+   * @param mimetype  The mimetype of the contents
+   * @param size      The size of the contents, or of the part received before blocking them, in bytes
+   */
+  private reportBlockedClipboard(direction: string, reason: string, mimetype: string, size: number): void {
+    this.onClipboardBlocked.next({direction, reason, mimetype, size, timestamp: Date.now()});
+  }
+
+  /**
+   * Play back an audio stream received from the remote desktop
+   * @param stream
+   * @param mimetype
+   * @returns The player of the stream, or null if its mimetype is not supported
+   */
+  private handleAudio(stream: InputStream, mimetype: string): AudioPlayer {
+    return this.audioOutput.createPlayer(stream, mimetype);
   }
 
   /**
@@ -467,11 +1768,140 @@ export class RemoteDesktopService {
 
   }
 
+  /**
+   * Emit the given hotkey and release the keys typing it on the remote desktop,
+   * as it must not see them held once the hotkey is handled locally
+   * @param name The name of the hotkey
+   */
+  private consumeHotkey(name: string): void {
+    this.consumedKeysyms = [...this.pressedKeysyms];
+    [...this.remotePressedKeysyms].reverse().forEach(keysym => this.sendRemoteKeyEvent(false, keysym));
+    this.onHotkey.next(name);
+  }
+
+  /**
+   * Send a key event to the remote desktop, keeping track of the keys held there.
+   * The release of a key not held there is dropped, e.g. when its press was dropped
+   * by a key interceptor.
+   * @param pressed Whether the key is pressed or released
+   * @param keysym  The keysym of the key
+   */
+  private sendRemoteKeyEvent(pressed: boolean, keysym: number): void {
+    if (!pressed && !this.remotePressedKeysyms.includes(keysym)) {
+      return;
+    }
+    this.remotePressedKeysyms = this.remotePressedKeysyms.filter(remoteKeysym => remoteKeysym !== keysym);
+    if (pressed) {
+      this.remotePressedKeysyms.push(keysym);
+    }
+    if (this.client) {
+      this.client.sendKeyEvent(pressed ? 1 : 0, keysym);
+    }
+  }
+
+  /**
+   * Send the contents of the local clipboard to the remote desktop, unless they are already there
+   * @param data
+   */
+  private sendSyncedClipboardData(data: ClipboardData): void {
+    if (!data || !data.data || isSameClipboardData(data, this.syncedClipboardData)) {
+      return;
+    }
+    this.syncedClipboardData = data;
+    this.sendRemoteClipboardData(data);
+  }
+
+  /**
+   * Write the contents of the remote clipboard into the local clipboard. The
+   * browser only permits it while the page is focused, so they are kept until then.
+   * @param data
+   */
+  private writeSyncedClipboardData(data: ClipboardData): void {
+    this.syncedClipboardData = data;
+    if (typeof document !== 'undefined' && !document.hasFocus()) {
+      this.pendingLocalClipboardData = data;
+      return;
+    }
+    this.pendingLocalClipboardData = null;
+    writeLocalClipboard(data)
+      .then(() => this.setClipboardSyncStatus(ClipboardSyncStatus.ACTIVE))
+      .catch(err => this.handleClipboardSyncError(err));
+  }
+
+  /**
+   * Report that the browser denied access to the local clipboard. The
+   * synchronization keeps trying, as the user may grant it later on.
+   * @param err
+   */
+  private handleClipboardSyncError(err: any): void {
+    console.warn('Unable to access the local clipboard', err);
+    this.setClipboardSyncStatus(ClipboardSyncStatus.DENIED);
+  }
+
+  /**
+   * Change the clipboard synchronization status unless it has been disabled meanwhile
+   * @param status
+   */
+  private setClipboardSyncStatus(status: string): void {
+    const current = this.onClipboardSyncStatus.getValue();
+    if (current !== status && current !== ClipboardSyncStatus.DISABLED) {
+      this.onClipboardSyncStatus.next(status);
+    }
+  }
+
+  /**
+   * Emit and keep the given touch input preferences
+   * @param preferences
+   */
+  private setInputPreferences(preferences: InputPreferences): void {
+    saveInputPreferences(preferences);
+    this.onInputPreferences.next(preferences);
+  }
+
+  /**
+   * Get the zoom in use or, when not zoomed, the scale of the display
+   */
+  private getCurrentScale(): number {
+    const zoom = this.getZoom();
+    if (zoom !== null) {
+      return zoom;
+    }
+    return this.client ? this.client.getDisplay().getScale() : 1;
+  }
+
+  /**
+   * Send the given resolution to the remote desktop, if still wanted, connected and in control
+   */
+  private sendSize(size: RemoteSize): void {
+    if (this.resizePolicy.enabled && size === this.remoteSize && this.isConnected() && !this.isReadOnly()) {
+      this.client.sendSize(size.width, size.height);
+    }
+  }
+
+  /**
+   * Release the mouse buttons held on the remote desktop, leaving the cursor where it is
+   */
+  private releaseMouseButtons(): void {
+    if (!this.client || !this.isConnected()) {
+      return;
+    }
+    const display = this.client.getDisplay();
+    this.client.sendMouseState(new Mouse.State(display.cursorX, display.cursorY, false, false, false, false, false));
+  }
+
   /**
    * Build the URL query parameters to send to the tunnel connection
    */
-  private buildParameters(parameters = {}): string {
-    let params = new HttpParams({fromObject: parameters});
+  private buildParameters(parameters: AnyConnectionParameters = {}): string {
+    const values = serializeConnectionParameters(parameters);
+    if (this.resizePolicy.enabled && this.remoteSize && values.width === undefined && values.height === undefined) {
+      values.width = String(this.remoteSize.width);
+      values.height = String(this.remoteSize.height);
+      if (values.dpi === undefined) {
+        values.dpi = String(this.remoteSize.dpi);
+      }
+    }
+    let params = new HttpParams({fromObject: values});
     return params.toString();
   }
 
@@ -483,28 +1913,21 @@ export class RemoteDesktopService {
     this.client.onerror = this.handleClientError.bind(this);
     this.client.onstatechange = this.handleClientStateChange.bind(this);
     this.client.onclipboard = this.handleClipboard.bind(this);
+    this.client.onaudio = this.handleAudio.bind(this);
     this.client.onfilesystem = this.handleFilesystem.bind(this);
     this.client.onfile = this.handleFileReceived.bind(this);
     this.tunnel.onerror = this.handleTunnelError.bind(this);
     this.tunnel.onstatechange = this.handleTunnelStateChange.bind(this);
-    /*
-     * Override tunnel instruction message
-     */
-    this.tunnel.oninstruction = ((oninstruction) => {
-      return (opcode: string, parameters: any) => {
-        oninstruction(opcode, parameters);
-        this.onTunnelInstruction.next({opcode, parameters});
-      };
-    })(this.tunnel.oninstruction);
   }
 
   /**
    * Handle any client errors by disconnecting and updating the connection state
-   * @param state State received from the client
+   * @param status Status received from the client
    */
-  private handleClientError(status: any): void {
+  private handleClientError(status: Status): void {
+    this.onError.next(ConnectionError.fromStatus(status, 'client'));
     // Disconnect if connected
-    this.disconnect();
+    this.client.disconnect();
     this.setState(RemoteDesktopService.STATE.CLIENT_ERROR);
   }
 
@@ -541,8 +1964,9 @@ export class RemoteDesktopService {
    * @param status Status received from the tunnel
    * See https://guacamole.apache.org/doc/gug/protocol-reference.html for error reference
    */
-  private handleTunnelError(status: any): void {
-    this.disconnect();
+  private handleTunnelError(status: Status | string): void {
+    this.onError.next(ConnectionError.fromStatus(status, 'tunnel'));
+    this.client.disconnect();
     this.setState(RemoteDesktopService.STATE.TUNNEL_ERROR);
     console.error('Tunnel error', status);
   }
@@ -553,14 +1977,24 @@ export class RemoteDesktopService {
    */
   private handleTunnelStateChange(state: number): void {
     switch (state) {
-      // Connection is being established
+      // Connection is being established, or is stable again
       case 1:
-        this.setState(RemoteDesktopService.STATE.CONNECTING);
+        if (this.isState(RemoteDesktopService.STATE.UNSTABLE)) {
+          this.setState(RemoteDesktopService.STATE.CONNECTED);
+        } else {
+          this.setState(RemoteDesktopService.STATE.CONNECTING);
+        }
         break;
       // Connection has closed
       case 2:
         this.setState(RemoteDesktopService.STATE.DISCONNECTED);
         break;
+      // No data received recently
+      case 3:
+        if (this.isConnected()) {
+          this.setState(RemoteDesktopService.STATE.UNSTABLE);
+        }
+        break;
     }
   }
 
@@ -22,6 +22,21 @@ import {ErrorMessageComponent} from '../messages/error-message.component';
 import {FileManagerComponent} from '../file-manager/file-manager.component';
 import {finalize, takeWhile} from 'rxjs/operators';
 import {ManagedFilesystemService} from '../managed-filesystem.service';
+import {ReconnectStatus} from '../reconnect-policy';
+import {IdleStatus} from '../idle-policy';
+import {CONNECTION_ERROR_DESCRIPTIONS, ConnectionError} from '../connection-error';
+import {ScaleMode} from '../scale-mode';
+import {CursorMode} from '../cursor-mode';
+
+/**
+ * The Keyboard Lock API, which lets the page receive the keys usually
+ * handled by the browser or the operating system while in full screen
+ */
+interface KeyboardLock {
+  lock(keyCodes?: string[]): Promise<void>;
+
+  unlock(): void;
+}
 
 /**
  * The main component for displaying a remote desktop
@@ -76,6 +91,28 @@ import {ManagedFilesystemService} from '../managed-filesystem.service';
           </ngx-remote-desktop-message>
         </div>
 
+        <!-- Reconnecting message -->
+        <div *ngIf="(state | async) === states.RECONNECTING">
+          <ngx-remote-desktop-message
+            title="Connection lost"
+            [message]="getReconnectMessage()"
+            type="error"
+          >
+            <button
+              (click)="remoteDesktopService.reconnect()"
+              class="ngx-remote-desktop-message-body-btn"
+            >
+              Reconnect now
+            </button>
+            <button
+              (click)="remoteDesktopService.cancelReconnect()"
+              class="ngx-remote-desktop-message-body-btn"
+            >
+              Cancel
+            </button>
+          </ngx-remote-desktop-message>
+        </div>
+
         <!-- Disconnected message -->
         <div *ngIf="(state | async) === states.DISCONNECTED">
           <div class="ngx-remote-desktop-message" *ngIf="disconnectedMessage">
@@ -90,7 +127,7 @@ import {ManagedFilesystemService} from '../managed-filesystem.service';
             type="error"
           >
             <button
-              (click)="remoteDesktopService.onReconnect.next(true)"
+              (click)="remoteDesktopService.reconnect()"
               class="ngx-remote-desktop-message-body-btn"
             >
               Reconnect
@@ -107,11 +144,11 @@ import {ManagedFilesystemService} from '../managed-filesystem.service';
           <ngx-remote-desktop-message
             *ngIf="!errorMessage"
             title="Connection error"
-            message="The remote desktop server is currently unreachable."
+            [message]="getErrorMessage()"
             type="error"
           >
             <button
-              (click)="remoteDesktopService.onReconnect.next(true)"
+              (click)="remoteDesktopService.reconnect()"
               class="ngx-remote-desktop-message-body-btn"
             >
               Connect
@@ -123,10 +160,46 @@ import {ManagedFilesystemService} from '../managed-filesystem.service';
         <ngx-remote-desktop-display
           *ngIf="(state | async) === states.CONNECTED"
           [manager]="remoteDesktopService"
+          [scaleMode]="scaleMode"
+          [zoom]="zoom"
+          [panning]="panning"
+          [pointerLock]="pointerLock"
+          [cursorMode]="cursorMode"
           (onMouseMove)="handleDisplayMouseMove($event)"
         >
         </ngx-remote-desktop-display>
 
+        <!-- Unstable connection overlay -->
+        <div class="ngx-remote-desktop-unstable" *ngIf="unstable && (state | async) === states.CONNECTED">
+          <ngx-remote-desktop-message
+            title="Connection unstable"
+            message="The remote desktop is not responding. Waiting for the connection to recover..."
+            type="error"
+          >
+          </ngx-remote-desktop-message>
+        </div>
+
+        <!-- Idle warning -->
+        <div class="ngx-remote-desktop-idle" *ngIf="idleStatus && (state | async) === states.CONNECTED">
+          <ngx-remote-desktop-message
+            title="Are you still there?"
+            [message]="getIdleMessage()"
+            type="error"
+          >
+            <button
+              (click)="remoteDesktopService.reportActivity()"
+              class="ngx-remote-desktop-message-body-btn"
+            >
+              Stay connected
+            </button>
+          </ngx-remote-desktop-message>
+        </div>
+
+        <!-- View only badge -->
+        <div class="ngx-remote-desktop-read-only" *ngIf="readOnly && (state | async) === states.CONNECTED">
+          View only
+        </div>
+
         <!-- File manager -->
         <div class="file-manager-dialog" [class.show]="showFileManager">
           <ng-content select="ngx-remote-desktop-file-manager"></ng-content>
@@ -134,16 +207,17 @@ import {ManagedFilesystemService} from '../managed-filesystem.service';
 
         <!-- File transfers -->
         <div id="file-transfer-dialog" *ngIf="hasTransfers()">
-          <ngx-file-transfer-manager></ngx-file-transfer-manager>
+          <ngx-file-transfer-manager [session]="remoteDesktopService"></ngx-file-transfer-manager>
         </div>
       </section>
 
-
+      <!-- On-screen keyboard -->
+      <ng-content select="ngx-remote-desktop-osk"></ng-content>
 
       <section
         [class.ngx-remote-desktop-status-bar-hidden]="remoteDesktopService.isFullScreen()"
       >
-
+        <ng-content select="ngx-remote-desktop-status-bar"></ng-content>
       </section>
     </div>
   `,
@@ -162,13 +236,14 @@ import {ManagedFilesystemService} from '../managed-filesystem.service';
 export class RemoteDesktopComponent implements OnInit, OnDestroy {
   /**
    * Guacamole has more states than the list below however for the component we are only interested
-   * in managing four states.
+   * in managing five states.
    */
   public states = {
     CONNECTING: 'CONNECTING',
     CONNECTED: 'CONNECTED',
     DISCONNECTED: 'DISCONNECTED',
     ERROR: 'ERROR',
+    RECONNECTING: 'RECONNECTING',
   };
 
   /**
@@ -178,8 +253,70 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
     this.states.CONNECTING
   );
 
+  /**
+   * The pending automatic reconnection, if any
+   */
+  public reconnectStatus: ReconnectStatus;
+
+  /**
+   * Whether the connection is established but no data has been received recently
+   */
+  public unstable = false;
+
+  /**
+   * The pending idle disconnection, if any
+   */
+  public idleStatus: IdleStatus;
+
+  /**
+   * Whether the session is view-only
+   */
+  public readOnly = false;
+
   @Input() showFileManager: boolean;
 
+  /**
+   * How the remote desktop is scaled, as listed within ScaleMode
+   */
+  @Input() scaleMode = ScaleMode.FIT;
+
+  /**
+   * The zoom percentage used by the zoom scale mode
+   */
+  @Input() zoom = 100;
+
+  /**
+   * Whether dragging pans the display instead of being sent to the remote desktop
+   */
+  @Input() panning = false;
+
+  /**
+   * Whether clicking the display locks the pointer to it
+   */
+  @Input() pointerLock = false;
+
+  /**
+   * How the cursor is shown, as listed within CursorMode
+   */
+  @Input() cursorMode = CursorMode.LOCAL;
+
+  /**
+   * The session to display. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (!session || session === this.remoteDesktopService) {
+      return;
+    }
+    this.remoteDesktopService = session;
+
+    // Follow the new session if it is switched after initialisation
+    if (this.subscriptions.length) {
+      this.unbindSubscriptions();
+      this.bindSubscriptions();
+    }
+  }
+
   @ContentChild(ConnectingMessageComponent, {static: true})
   public connectingMessage: ConnectingMessageComponent;
 
@@ -192,7 +329,7 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
   @ViewChild('container', {static: true})
   private container: ElementRef;
 
-  @ViewChild('toolbar', {static: true})
+  @ViewChild('toolbar')
   private toolbar: ElementRef;
 
   @ContentChild(FileManagerComponent)
@@ -203,6 +340,11 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
    */
   private subscriptions: Subscription[] = [];
 
+  /**
+   * Keeps the full screen state of the session in sync with the browser
+   */
+  private fullScreenChangeListener = this.handleFullScreenChange.bind(this);
+
   /**
    * Hide or show elements
    */
@@ -225,14 +367,62 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
    * Subscribe to the connection state  and full screen state when the component is initialised
    */
   ngOnInit(): void {
+    if (screenfull.isEnabled) {
+      screenfull.on('change', this.fullScreenChangeListener);
+    }
     this.bindSubscriptions();
   }
 
   /**
-   * Remove all subscriptions when the component is destroyed
+   * Remove all subscriptions and leave full screen when the component is destroyed
    */
   ngOnDestroy(): void {
     this.unbindSubscriptions();
+    if (screenfull.isEnabled) {
+      screenfull.off('change', this.fullScreenChangeListener);
+    }
+    this.exitFullScreen();
+  }
+
+  /**
+   * Describe the pending automatic reconnection, e.g. "Reconnecting in 5s (attempt 2/5)"
+   */
+  public getReconnectMessage(): string {
+    const status = this.reconnectStatus;
+    if (!status) {
+      return '';
+    }
+    const seconds = Math.ceil(status.nextRetryIn / 1000);
+    return `Reconnecting in ${seconds}s (attempt ${status.attempt}/${status.maxAttempts})`;
+  }
+
+  /**
+   * Describe the pending idle disconnection
+   */
+  public getIdleMessage(): string {
+    const status = this.idleStatus;
+    if (!status) {
+      return '';
+    }
+    const seconds = Math.ceil(status.disconnectIn / 1000);
+    return `You will be disconnected in ${seconds}s due to inactivity`;
+  }
+
+  /**
+   * The error which terminated the connection, if any. A projected
+   * ngx-remote-desktop-error-message can show it through a template reference
+   * to this component, e.g. {{ remoteDesktop.error?.reason }}
+   */
+  public get error(): ConnectionError {
+    return this.remoteDesktopService.getError();
+  }
+
+  /**
+   * Describe the error which terminated the connection
+   */
+  public getErrorMessage(): string {
+    const error = this.error;
+    return error ? error.getDescription() : CONNECTION_ERROR_DESCRIPTIONS.UNKNOWN;
   }
 
   public hasTransfers(): boolean {
@@ -250,6 +440,15 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
     this.subscriptions.push(
       this.remoteDesktopService.onFullScreen.subscribe(this.handleFullScreen.bind(this))
     );
+    this.subscriptions.push(
+      this.remoteDesktopService.onReconnectStatus.subscribe(this.handleReconnectStatus.bind(this))
+    );
+    this.subscriptions.push(
+      this.remoteDesktopService.onIdleStatus.subscribe(status => this.idleStatus = status)
+    );
+    this.subscriptions.push(
+      this.remoteDesktopService.onReadOnly.subscribe(readOnly => this.readOnly = readOnly)
+    );
   }
 
   /**
@@ -257,6 +456,7 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
    */
   private unbindSubscriptions(): void {
     this.subscriptions.forEach((subscription) => subscription.unsubscribe());
+    this.subscriptions = [];
   }
 
   /**
@@ -272,8 +472,16 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
    * @param newState - state received from the guacamole client
    */
   private handleState(newState: string) {
+    this.unstable = newState === RemoteDesktopService.STATE.UNSTABLE;
+
+    // Keep showing the countdown while a reconnection is pending
+    if (this.reconnectStatus && !this.remoteDesktopService.isConnected()) {
+      this.setState(this.states.RECONNECTING);
+      return;
+    }
     switch (newState) {
       case RemoteDesktopService.STATE.CONNECTED:
+      case RemoteDesktopService.STATE.UNSTABLE:
         this.setState(this.states.CONNECTED);
         break;
       case RemoteDesktopService.STATE.DISCONNECTED:
@@ -293,44 +501,90 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Exit full screen and show the toolbar
+   * Show the reconnection countdown, or go back to the connection state once it is over
+   * @param status - pending reconnection received from the remote desktop service
    */
-  private exitFullScreen(): void {
-    if (!screenfull.isEnabled) {
-      return
-    }
+  private handleReconnectStatus(status: ReconnectStatus) {
+    this.reconnectStatus = status;
+    this.handleState(this.remoteDesktopService.getState());
+  }
 
-    if (!screenfull.isFullscreen) {
+  /**
+   * Exit full screen and release the keyboard
+   */
+  private exitFullScreen(): void {
+    if (!screenfull.isEnabled || !this.isContainerFullScreen()) {
       return;
     }
-
+    this.unlockKeyboard();
     screenfull.exit();
   }
 
   /**
-   * Enter full screen mode and auto hide the toolbar
+   * Request full screen on the container, then lock the keyboard so that
+   * Escape, Alt+Tab or the Windows key go to the remote desktop
    */
   private enterFullScreen(): void {
     if (!screenfull.isEnabled) {
+      this.remoteDesktopService.setFullScreen(false);
       return;
     }
-
-    if (screenfull.isFullscreen) {
+    if (this.isContainerFullScreen()) {
       return;
     }
-
-    const containerElement = this.container.nativeElement;
-    if (screenfull.isEnabled) {
-      screenfull.on('change', (change: any) => {
-        if (!screenfull.isEnabled) {
-          return;
-        }
-        if (!screenfull.isFullscreen) {
-          this.remoteDesktopService.setFullScreen(false);
-        }
-        this.handleToolbar();
+    screenfull.request(this.container.nativeElement)
+      .then(() => this.lockKeyboard())
+      .catch(err => {
+        console.error('Unable to enter full screen', err);
+        this.remoteDesktopService.setFullScreen(false);
       });
+  }
+
+  /**
+   * Follow the browser when it enters or leaves full screen by itself,
+   * e.g. when the user presses Escape without the keyboard locked
+   */
+  private handleFullScreenChange(): void {
+    const fullScreen = this.isContainerFullScreen();
+    if (!fullScreen) {
+      this.unlockKeyboard();
     }
+    if (fullScreen !== this.remoteDesktopService.isFullScreen()) {
+      this.remoteDesktopService.setFullScreen(fullScreen);
+    }
+    this.handleToolbar();
+  }
+
+  /**
+   * Whether the container is the element in full screen
+   */
+  private isContainerFullScreen(): boolean {
+    return screenfull.isEnabled && screenfull.element === this.container.nativeElement;
+  }
+
+  /**
+   * Capture all the keys, where the Keyboard Lock API is available
+   */
+  private lockKeyboard(): void {
+    const keyboard = this.getKeyboardLock();
+    if (keyboard) {
+      keyboard.lock().catch(err => console.warn('Unable to lock the keyboard', err));
+    }
+  }
+
+  /**
+   * Give the keys back to the browser
+   */
+  private unlockKeyboard(): void {
+    const keyboard = this.getKeyboardLock();
+    if (keyboard) {
+      keyboard.unlock();
+    }
+  }
+
+  private getKeyboardLock(): KeyboardLock {
+    const keyboard = (navigator as Navigator & {keyboard?: KeyboardLock}).keyboard;
+    return keyboard && typeof keyboard.lock === 'function' ? keyboard : null;
   }
 
   /**
@@ -342,6 +596,7 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
     } else {
       this.exitFullScreen();
     }
+    this.handleToolbar();
   }
 
   private handleToolbar(): void {
@@ -353,7 +608,7 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
    * @param event Mouse event
    */
   public handleDisplayMouseMove($event: any): void {
-    if (!this.remoteDesktopService.isFullScreen()) {
+    if (!this.remoteDesktopService.isFullScreen() || !this.toolbar) {
       return;
     }
     const toolbarWidth = this.toolbar.nativeElement.clientWidth;
@@ -364,7 +619,7 @@ export class RemoteDesktopComponent implements OnInit, OnDestroy {
 
   @HostListener('document:mousemove', ['$event'])
   private onDocumentMousemove($event: MouseEvent) {
-    if (!this.remoteDesktopService.isFullScreen()) {
+    if (!this.remoteDesktopService.isFullScreen() || !this.toolbar) {
       return;
     }
     const toolbarWidth = this.toolbar.nativeElement.clientWidth;
@@ -0,0 +1,90 @@
+/**
+ * Describes whether and how the resolution of the remote desktop follows the
+ * size of the viewport it is displayed in.
+ *
+ * The remote desktop server must support resizing, e.g. RDP with the
+ * "resize-method" connection parameter set to "display-update".
+ */
+export interface ResizePolicy {
+  /**
+   * Whether the remote desktop is resized at all. When disabled, the remote
+   * desktop is only scaled to fit the viewport.
+   */
+  enabled: boolean;
+
+  /**
+   * The number of milliseconds the viewport size must stay unchanged before
+   * the new size is sent, so that dragging a window border does not flood
+   * the server with resolution changes.
+   */
+  debounceTime: number;
+
+  /**
+   * Whether the size is multiplied by the device pixel ratio, so that the
+   * remote desktop is rendered pixel-perfect on high density screens.
+   */
+  useDevicePixelRatio: boolean;
+
+  /**
+   * The smallest resolution requested, in pixels.
+   */
+  minWidth: number;
+  minHeight: number;
+
+  /**
+   * The largest resolution requested, in pixels.
+   */
+  maxWidth: number;
+  maxHeight: number;
+}
+
+/**
+ * The policy in use until one is set through
+ * RemoteDesktopService.setResizePolicy(). Resizing is opt-in.
+ */
+export const DEFAULT_RESIZE_POLICY: ResizePolicy = {
+  enabled: false,
+  debounceTime: 250,
+  useDevicePixelRatio: true,
+  minWidth: 640,
+  minHeight: 480,
+  maxWidth: 4096,
+  maxHeight: 4096,
+};
+
+/**
+ * A resolution of the remote desktop.
+ */
+export interface RemoteSize {
+  width: number;
+  height: number;
+
+  /**
+   * The resolution of the display, in dots per inch.
+   */
+  dpi: number;
+}
+
+/**
+ * Calculates the resolution to request for a viewport of the given size.
+ *
+ * @param policy
+ *     The resize policy in use.
+ *
+ * @param width
+ *     The width of the viewport, in CSS pixels.
+ *
+ * @param height
+ *     The height of the viewport, in CSS pixels.
+ *
+ * @param pixelRatio
+ *     The number of device pixels per CSS pixel.
+ */
+export function computeRemoteSize(policy: ResizePolicy, width: number, height: number, pixelRatio: number): RemoteSize {
+  const ratio = policy.useDevicePixelRatio && pixelRatio > 0 ? pixelRatio : 1;
+  return {
+    width: Math.min(Math.max(Math.floor(width * ratio), policy.minWidth), policy.maxWidth),
+    height: Math.min(Math.max(Math.floor(height * ratio), policy.minHeight), policy.maxHeight),
+    dpi: Math.round(96 * ratio),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Valid display scale mode strings.
+ */
+export const ScaleMode = {
+  /**
+   * The whole remote desktop is scaled to fit the viewport.
+   */
+  FIT: 'fit',
+
+  /**
+   * The remote desktop is shown at its original size, scrolling when it
+   * is larger than the viewport.
+   */
+  ORIGINAL: 'original',
+
+  /**
+   * The remote desktop is shown at a fixed zoom percentage, scrolling when
+   * it is larger than the viewport.
+   */
+  ZOOM: 'zoom',
+
+  /**
+   * The remote desktop is scaled to the width of the viewport, scrolling
+   * vertically when it is taller than the viewport.
+   */
+  FILL_WIDTH: 'fill-width',
+};
@@ -0,0 +1,252 @@
+/**
+ * Valid recording state strings.
+ */
+export const RecordingState = {
+  /**
+   * Nothing is being recorded.
+   */
+  IDLE: 'IDLE',
+
+  /**
+   * Received instructions are being recorded.
+   */
+  RECORDING: 'RECORDING',
+
+  /**
+   * The recording is suspended. Received instructions are dropped, and the
+   * time spent paused is left out of the recording. The display is recorded
+   * again on resume, so that playback goes on from what it then shows.
+   */
+  PAUSED: 'PAUSED',
+};
+
+/**
+ * The stream index used to draw the initial snapshot of the display.
+ */
+const SNAPSHOT_STREAM = 0;
+
+/**
+ * The channel mask drawing an image over the destination, replacing it.
+ */
+const SNAPSHOT_CHANNEL_MASK = 0xC;
+
+/**
+ * The number of base64 characters sent within each snapshot blob.
+ */
+const SNAPSHOT_BLOB_LENGTH = 4096;
+
+/**
+ * The position of the stream index within the arguments of the instructions
+ * opening a stream from the server.
+ */
+const STREAM_INDEX_POSITIONS: { [opcode: string]: number } = {
+  img: 0,
+  audio: 0,
+  video: 0,
+  file: 0,
+  pipe: 0,
+  clipboard: 0,
+  argv: 0,
+  body: 1,
+};
+
+/**
+ * Returns the length of the given value as defined by the Guacamole
+ * protocol, which counts Unicode codepoints rather than UTF-16 units.
+ */
+function getElementLength(value: string): number {
+  if (!/[\uD800-\uDFFF]/.test(value)) {
+    return value.length;
+  }
+  return Array.from(value).length;
+}
+
+/**
+ * Encodes the given instruction with the Guacamole protocol, e.g.
+ * "4.sync,8.12345678;".
+ *
+ * @param opcode
+ *     The opcode of the instruction.
+ *
+ * @param parameters
+ *     The arguments of the instruction.
+ */
+export function encodeInstruction(opcode: string, parameters: any[]): string {
+  return [opcode, ...parameters]
+    .map(element => {
+      const value = String(element);
+      return getElementLength(value) + '.' + value;
+    })
+    .join(',') + ';';
+}
+
+/**
+ * Records the instructions received from the server as a standard Guacamole
+ * protocol dump, the same format guacd writes for server-side recordings.
+ */
+export class SessionRecorder {
+  /**
+   * The current state, as listed within RecordingState.
+   */
+  state = RecordingState.IDLE;
+
+  /**
+   * The encoded instructions recorded so far
+   */
+  private chunks: string[] = [];
+
+  /**
+   * The local time the recording was paused at
+   */
+  private pausedAt: number;
+
+  /**
+   * The total number of milliseconds spent paused, removed from the sync
+   * timestamps so that pauses do not show in playback
+   */
+  private pausedDuration = 0;
+
+  /**
+   * The indexes of the streams opened within the recording and not ended yet
+   */
+  private openStreams = new Set<string>();
+
+  /**
+   * The indexes of the streams left out of the recording because they were
+   * opened, or went on, while paused. Their data is dropped until they end.
+   */
+  private droppedStreams = new Set<string>();
+
+  /**
+   * Starts recording.
+   *
+   * @param [snapshot]
+   *     The current content of the display, if any. Since the recording
+   *     starts mid-session, it is drawn first so that playback does not
+   *     start from a blank screen.
+   */
+  start(snapshot?: HTMLCanvasElement): void {
+    this.chunks = [];
+    this.pausedDuration = 0;
+    this.openStreams.clear();
+    this.droppedStreams.clear();
+    this.state = RecordingState.RECORDING;
+
+    if (snapshot && snapshot.width && snapshot.height) {
+      this.recordSnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Records an instruction received from the server, unless paused.
+   *
+   * @param opcode
+   *     The opcode of the instruction.
+   *
+   * @param parameters
+   *     The arguments of the instruction.
+   */
+  record(opcode: string, parameters: any[]): void {
+    parameters = parameters || [];
+    if (this.state === RecordingState.IDLE) {
+      return;
+    }
+
+    // Leave out the streams which are not entirely within the recording
+    const opened = STREAM_INDEX_POSITIONS[opcode];
+    const index = String(parameters[opened === undefined ? 0 : opened]);
+    if (this.state === RecordingState.PAUSED) {
+      if (opened !== undefined) {
+        this.droppedStreams.add(index);
+      }
+      return;
+    }
+    if ((opcode === 'blob' || opcode === 'end') && this.droppedStreams.has(index)) {
+      if (opcode === 'end') {
+        this.droppedStreams.delete(index);
+      }
+      return;
+    }
+    if (opened !== undefined) {
+      this.droppedStreams.delete(index);
+      this.openStreams.add(index);
+    } else if (opcode === 'end') {
+      this.openStreams.delete(index);
+    }
+
+    // Shift timestamps so that the time spent paused is left out. This
+    // assumes the clocks of the server and of the browser advance at the
+    // same rate, as the pause is measured with the latter.
+    if (opcode === 'sync' && this.pausedDuration) {
+      parameters = [parseInt(parameters[0], 10) - this.pausedDuration, ...parameters.slice(1)];
+    }
+
+    this.chunks.push(encodeInstruction(opcode, parameters));
+  }
+
+  /**
+   * Suspends the recording. The streams still open are ended within the
+   * recording, and the rest of their data is dropped.
+   */
+  pause(): void {
+    if (this.state === RecordingState.RECORDING) {
+      this.openStreams.forEach(index => {
+        this.chunks.push(encodeInstruction('end', [index]));
+        this.droppedStreams.add(index);
+      });
+      this.openStreams.clear();
+      this.pausedAt = Date.now();
+      this.state = RecordingState.PAUSED;
+    }
+  }
+
+  /**
+   * Resumes a suspended recording.
+   *
+   * @param [snapshot]
+   *     The current content of the display, if any. The instructions
+   *     received while paused are missing from the recording, so it is drawn
+   *     first for playback to go on from the right display state.
+   */
+  resume(snapshot?: HTMLCanvasElement): void {
+    if (this.state === RecordingState.PAUSED) {
+      this.pausedDuration += Date.now() - this.pausedAt;
+      this.state = RecordingState.RECORDING;
+
+      if (snapshot && snapshot.width && snapshot.height) {
+        this.recordSnapshot(snapshot);
+      }
+    }
+  }
+
+  /**
+   * Stops recording.
+   *
+   * @returns
+   *     The recording, as a Guacamole protocol dump.
+   */
+  stop(): Blob {
+    const recording = new Blob(this.chunks, {type: 'application/octet-stream'});
+    this.chunks = [];
+    this.state = RecordingState.IDLE;
+    return recording;
+  }
+
+  /**
+   * Records the instructions drawing the given canvas on the default layer
+   *
+   * @param snapshot
+   *     The canvas to draw.
+   */
+  private recordSnapshot(snapshot: HTMLCanvasElement): void {
+    const data = snapshot.toDataURL('image/png');
+    const base64 = data.substring(data.indexOf(',') + 1);
+
+    this.chunks.push(encodeInstruction('size', [0, snapshot.width, snapshot.height]));
+    this.chunks.push(encodeInstruction('img', [SNAPSHOT_STREAM, SNAPSHOT_CHANNEL_MASK, 0, 'image/png', 0, 0]));
+    for (let offset = 0; offset < base64.length; offset += SNAPSHOT_BLOB_LENGTH) {
+      this.chunks.push(encodeInstruction('blob', [SNAPSHOT_STREAM, base64.substring(offset, offset + SNAPSHOT_BLOB_LENGTH)]));
+    }
+    this.chunks.push(encodeInstruction('end', [SNAPSHOT_STREAM]));
+  }
+}
@@ -0,0 +1,188 @@
+import {Component, Inject, Input, OnDestroy, OnInit, ViewEncapsulation} from '@angular/core';
+import {DOCUMENT} from '@angular/common';
+import {Subscription} from 'rxjs';
+import {RemoteDesktopService} from '../remote-desktop.service';
+import {TunnelRestApiService} from '../tunnel-rest-api.service';
+import {getShareLink, SharingProfile} from '../sharing';
+import {writeLocalClipboard} from '../clipboard-sync';
+
+/**
+ * Panel sharing the connected session with other users. It lists the sharing
+ * profiles available for the tunnel of the session and generates a share
+ * link for any of them, which the page at the base URL is expected to join
+ * through RemoteDesktopService.joinSharedSession():
+ *
+ *   <ngx-remote-desktop-share-panel baseUrl="https://example.com/join"></ngx-remote-desktop-share-panel>
+ *
+ * The TunnelRestApiService must be initialized with the REST API of the tunnel backend.
+ */
+@Component({
+  selector: 'ngx-remote-desktop-share-panel',
+  template: `
+    <div class="ngx-remote-desktop-share-panel">
+      <div class="ngx-remote-desktop-share-panel-title">{{ title }}</div>
+      <div class="ngx-remote-desktop-share-panel-message" *ngIf="loading">
+        Loading the sharing profiles...
+      </div>
+      <div class="ngx-remote-desktop-share-panel-message ngx-remote-desktop-share-panel-error" *ngIf="error">
+        {{ error }}
+      </div>
+      <div class="ngx-remote-desktop-share-panel-message" *ngIf="!loading && !error && !profiles.length">
+        No sharing profile is available for this connection
+      </div>
+      <div class="ngx-remote-desktop-share-panel-profile" *ngFor="let profile of profiles">
+        <div class="ngx-remote-desktop-share-panel-profile-name">{{ profile.name }}</div>
+        <div class="ngx-remote-desktop-share-panel-link" *ngIf="links[profile.identifier]; else createButton">
+          <input type="text" readonly [value]="links[profile.identifier]" (focus)="$any($event.target).select()">
+          <button (click)="copyLink(profile)">{{ copied === profile.identifier ? 'Copied' : 'Copy' }}</button>
+        </div>
+        <ng-template #createButton>
+          <button [disabled]="pending === profile.identifier" (click)="createLink(profile)">Create link</button>
+        </ng-template>
+      </div>
+    </div>
+  `,
+  styleUrls: ['./share-panel.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+})
+export class SharePanelComponent implements OnInit, OnDestroy {
+  /**
+   * The title of the panel
+   */
+  @Input()
+  public title = 'Share this session';
+
+  /**
+   * The URL of the page joining shared sessions. The current page is used when not set.
+   */
+  @Input()
+  public baseUrl: string;
+
+  /**
+   * The session to share. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session && session !== this.manager) {
+      this.manager = session;
+      if (this.subscription) {
+        this.bindSubscription();
+      }
+    }
+  }
+
+  /**
+   * The sharing profiles available for the tunnel of the session
+   */
+  public profiles: SharingProfile[] = [];
+
+  /**
+   * The share links generated, by sharing profile identifier
+   */
+  public links: { [identifier: string]: string } = {};
+
+  /**
+   * The identifier of the sharing profile a link is being generated for, if any
+   */
+  public pending: string = null;
+
+  /**
+   * The identifier of the sharing profile whose link was last copied, if any
+   */
+  public copied: string = null;
+
+  /**
+   * Whether the sharing profiles are being loaded
+   */
+  public loading = false;
+
+  /**
+   * The last error, if any
+   */
+  public error: string = null;
+
+  /**
+   * The UUID of the tunnel the sharing profiles were loaded for
+   */
+  private tunnelUuid: string = null;
+
+  private subscription: Subscription;
+
+  constructor(
+    public manager: RemoteDesktopService,
+    private tunnelRestApiService: TunnelRestApiService,
+    @Inject(DOCUMENT) private document: Document,
+  ) {
+  }
+
+  ngOnInit(): void {
+    this.bindSubscription();
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Generate a share link for the given sharing profile
+   * @param profile
+   */
+  public createLink(profile: SharingProfile): void {
+    this.pending = profile.identifier;
+    this.error = null;
+    this.tunnelRestApiService.getSharingCredentials(this.tunnelUuid, profile.identifier)
+      .then(credentials => {
+        this.links[profile.identifier] = getShareLink(credentials, this.baseUrl || this.document.location.href);
+      })
+      .catch(() => this.error = `Unable to share the session as "${profile.name}"`)
+      .then(() => this.pending = null);
+  }
+
+  /**
+   * Copy the share link of the given sharing profile to the local clipboard
+   * @param profile
+   */
+  public copyLink(profile: SharingProfile): void {
+    this.error = null;
+    writeLocalClipboard({mimetype: 'text/plain', data: this.links[profile.identifier]})
+      .then(() => this.copied = profile.identifier)
+      .catch(() => this.error = 'Unable to copy the link, please copy it by hand');
+  }
+
+  /**
+   * Load the sharing profiles whenever the session connects through another tunnel
+   */
+  private bindSubscription(): void {
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+    }
+    this.tunnelUuid = null;
+    this.subscription = this.manager.onStateChange.subscribe(() => {
+      const tunnel = this.manager.getTunnel();
+      if (this.manager.isConnected() && tunnel && tunnel.uuid && tunnel.uuid !== this.tunnelUuid) {
+        this.loadProfiles(tunnel.uuid);
+      }
+    });
+  }
+
+  /**
+   * Load the sharing profiles available for the given tunnel
+   * @param tunnelUuid
+   */
+  private loadProfiles(tunnelUuid: string): void {
+    this.tunnelUuid = tunnelUuid;
+    this.profiles = [];
+    this.links = {};
+    this.copied = null;
+    this.error = null;
+    this.loading = true;
+    this.tunnelRestApiService.getSharingProfiles(tunnelUuid)
+      .then(profiles => {
+        if (tunnelUuid === this.tunnelUuid) {
+          this.profiles = Object.keys(profiles || {}).map(identifier => profiles[identifier]);
+        }
+      })
+      .catch(() => this.error = 'Unable to load the sharing profiles')
+      .then(() => this.loading = false);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * A sharing profile of a connection, dictating what the users joining a
+ * shared session may do, e.g. only watch.
+ */
+export interface SharingProfile {
+  /**
+   * The identifier of the sharing profile.
+   */
+  identifier: string;
+
+  /**
+   * The identifier of the connection the sharing profile shares.
+   */
+  primaryConnectionIdentifier: string;
+
+  /**
+   * The human-readable name of the sharing profile.
+   */
+  name: string;
+
+  /**
+   * The connection parameters overridden for the users joining, if exposed,
+   * e.g. "read-only".
+   */
+  parameters?: { [name: string]: string };
+
+  /**
+   * Arbitrary attributes of the sharing profile.
+   */
+  attributes?: { [name: string]: string };
+}
+
+/**
+ * The credentials granting access to a shared session, as generated for a
+ * sharing profile.
+ */
+export interface UserCredentials {
+  /**
+   * The fields the credentials are made of.
+   */
+  expected: { name: string, type: string }[];
+
+  /**
+   * The values of the credentials, by field name. The share key is held by
+   * the field named after SHARE_KEY_PARAMETER.
+   */
+  values: { [name: string]: string };
+}
+
+/**
+ * The name of the parameter holding the share key, both within share links
+ * and within the connection parameters of a joined session.
+ */
+export const SHARE_KEY_PARAMETER = 'key';
+
+/**
+ * Returns the share key held by the given credentials, or null if there is none.
+ *
+ * @param credentials
+ *     The credentials generated for a sharing profile.
+ */
+export function getShareKey(credentials: UserCredentials): string {
+  return credentials && credentials.values ? credentials.values[SHARE_KEY_PARAMETER] || null : null;
+}
+
+/**
+ * Returns the link to a shared session, made of the given base URL and the
+ * values of the given credentials as query parameters. The page opening the
+ * link is expected to join the session with the share key it holds.
+ *
+ * @param credentials
+ *     The credentials generated for a sharing profile.
+ *
+ * @param baseUrl
+ *     The URL of the page joining shared sessions. Its query and fragment are dropped.
+ */
+export function getShareLink(credentials: UserCredentials, baseUrl: string): string {
+  const query = Object.keys(credentials.values)
+    .map(name => `${encodeURIComponent(name)}=${encodeURIComponent(credentials.values[name])}`)
+    .join('&');
+  return baseUrl.replace(/[?#].*$/, '') + '?' + query;
+}
@@ -3,6 +3,7 @@ import {InputStream, OutputStream, Status} from '@raytecvision/guacamole-common-
 import {DOCUMENT} from '@angular/common';
 import {HttpClient} from '@angular/common/http';
 import {take} from 'rxjs/operators';
+import {SharingProfile, UserCredentials} from './sharing';
 
 /**
  * The number of milliseconds to wait after a stream download has completed
@@ -91,7 +92,7 @@ export class TunnelRestApiService {
    */
   getSharingProfiles(tunnel: string) {
     this.checkServiceState();
-    return this.http.get(this.apiUrl + '/api/session/tunnels/' + encodeURIComponent(tunnel)
+    return this.http.get<{ [identifier: string]: SharingProfile }>(this.apiUrl + '/api/session/tunnels/' + encodeURIComponent(tunnel)
       + '/activeConnection/connection/sharingProfiles', {
       headers: {'Guacamole-Token': this.token},
     }).pipe(take(1)).toPromise();
@@ -118,7 +119,7 @@ export class TunnelRestApiService {
    */
   getSharingCredentials(tunnel: string, sharingProfile: string) {
     this.checkServiceState();
-    return this.http.get(this.apiUrl + '/api/session/tunnels/' + encodeURIComponent(tunnel)
+    return this.http.get<UserCredentials>(this.apiUrl + '/api/session/tunnels/' + encodeURIComponent(tunnel)
       + '/activeConnection/sharingCredentials/'
       + encodeURIComponent(sharingProfile), {
       headers: {'Guacamole-Token': this.token},
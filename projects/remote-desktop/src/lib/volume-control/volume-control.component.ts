@@ -0,0 +1,75 @@
+import {Component, Input, ViewEncapsulation} from '@angular/core';
+import {RemoteDesktopService} from '../remote-desktop.service';
+
+/**
+ * Mute button and volume slider of the remote desktop audio, meant to be
+ * placed in a toolbar item:
+ *
+ *   <ngx-remote-desktop-toolbar-item align="right">
+ *     <ngx-remote-desktop-volume-control></ngx-remote-desktop-volume-control>
+ *   </ngx-remote-desktop-toolbar-item>
+ *
+ * The session must be connected with audio enabled, e.g. with the
+ * "enable-audio" parameter for VNC.
+ */
+@Component({
+  selector: 'ngx-remote-desktop-volume-control',
+  template: `
+    <span class="ngx-remote-desktop-volume-control-mute" (click)="manager.toggleMute()">
+      {{ (manager.onMuted | async) ? unmuteLabel : muteLabel }}
+    </span>
+    <input
+      *ngIf="showSlider"
+      class="ngx-remote-desktop-volume-control-slider"
+      type="range"
+      min="0"
+      max="100"
+      [value]="(manager.onVolume | async) * 100"
+      [disabled]="manager.onMuted | async"
+      (input)="setVolume($event)"
+      (click)="$event.stopPropagation()"
+    >
+  `,
+  styleUrls: ['./volume-control.component.scss'],
+  encapsulation: ViewEncapsulation.None,
+})
+export class VolumeControlComponent {
+  /**
+   * The text of the button muting the audio
+   */
+  @Input()
+  public muteLabel = 'Mute';
+
+  /**
+   * The text of the button unmuting the audio
+   */
+  @Input()
+  public unmuteLabel = 'Unmute';
+
+  /**
+   * Whether the volume slider is shown next to the button
+   */
+  @Input()
+  public showSlider = true;
+
+  /**
+   * The session whose audio is controlled. The default session is used when not set.
+   */
+  @Input()
+  set session(session: RemoteDesktopService) {
+    if (session) {
+      this.manager = session;
+    }
+  }
+
+  constructor(public manager: RemoteDesktopService) {
+  }
+
+  /**
+   * Set the volume picked on the slider
+   * @param event
+   */
+  public setVolume(event: Event): void {
+    this.manager.setVolume(Number((event.target as HTMLInputElement).value) / 100);
+  }
+}
@@ -4,12 +4,38 @@
 
 export * from './lib/remote-desktop.module';
 export * from './lib/remote-desktop.service';
+export * from './lib/remote-desktop-session-registry.service';
 export * from './lib/tunnel-rest-api.service';
+export * from './lib/reconnect-policy';
+export * from './lib/idle-policy';
+export * from './lib/resize-policy';
+export * from './lib/scale-mode';
+export * from './lib/input-mode';
+export * from './lib/cursor-mode';
+export * from './lib/connection-error';
+export * from './lib/connection-parameters';
+export * from './lib/connection-stats';
+export * from './lib/session-recorder';
+export * from './lib/clipboard-data';
+export * from './lib/clipboard-sync';
+export * from './lib/clipboard-policy';
+export * from './lib/audio-input';
+export * from './lib/sharing';
+export * from './lib/keysyms';
+export * from './lib/key-interceptor';
 export * from './lib/toolbar-item/toolbar-item.component';
 export * from './lib/file-manager/file-manager.component';
 export * from './lib/remote-desktop/remote-desktop.component';
 export * from './lib/status-bar-item/status-bar-item.component';
 export * from './lib/status-bar/status-bar.component';
+export * from './lib/connection-stats/connection-stats.component';
+export * from './lib/player/player.component';
+export * from './lib/osk/osk.component';
+export * from './lib/osk/on-screen-keyboard-layouts';
+export * from './lib/key-combinations/key-combinations.component';
+export * from './lib/volume-control/volume-control.component';
+export * from './lib/microphone-toggle/microphone-toggle.component';
+export * from './lib/share-panel/share-panel.component';
 export * from './lib/messages/connecting-message.component';
 export * from './lib/messages/error-message.component';
 export * from './lib/messages/disconnected-message.component';
@@ -3,7 +3,7 @@ import { MatSnackBar } from "@angular/material/snack-bar";
 import { WebSocketTunnel } from "@raytecvision/guacamole-common-js";
 import * as FileSaver from "file-saver";
 
-import { RemoteDesktopService, TunnelRestApiService } from "remote-desktop";
+import { ClipboardSyncStatus, createScrubbingFilter, CREDIT_CARD_NUMBER_PATTERN, CursorMode, InputMode, Keysym, RecordingState, RemoteDesktopService, SHARE_KEY_PARAMETER, TunnelRestApiService, vncParameters } from "remote-desktop";
 import { MatDialog } from "@angular/material/dialog";
 import { ClipboardModalComponent } from "./components/clipboard-modal.component";
 
@@ -15,6 +15,9 @@ import { ClipboardModalComponent } from "./components/clipboard-modal.component"
 })
 export class AppComponent implements OnInit {
   public fileManagerVisible: boolean = false;
+  public keyboardVisible: boolean = false;
+  public cursorMode: string = CursorMode.LOCAL;
+  public shareVisible: boolean = false;
 
   constructor(
     private snackBar: MatSnackBar,
@@ -42,6 +45,14 @@ export class AppComponent implements OnInit {
     return dialogRef.afterClosed();
   }
 
+  handleToggleRecording(): void {
+    if (this.remoteDesktopService.onRecordingStateChange.getValue() === RecordingState.IDLE) {
+      this.remoteDesktopService.startRecording();
+    } else {
+      FileSaver.saveAs(this.remoteDesktopService.stopRecording(), `recording.guac`);
+    }
+  }
+
   handleDisconnect(): void {
     this.remoteDesktopService.getClient().disconnect();
   }
@@ -67,6 +78,20 @@ export class AppComponent implements OnInit {
     }, () => this.remoteDesktopService.setFocused(true));
   }
 
+  handleToggleInputMode(): void {
+    const mode = this.remoteDesktopService.getInputMode() === InputMode.TOUCHPAD ? InputMode.TOUCHSCREEN : InputMode.TOUCHPAD;
+    this.remoteDesktopService.setInputMode(mode);
+  }
+
+  handleCycleCursorMode(): void {
+    const modes = [CursorMode.LOCAL, CursorMode.REMOTE, CursorMode.BOTH, CursorMode.NONE];
+    this.cursorMode = modes[(modes.indexOf(this.cursorMode) + 1) % modes.length];
+  }
+
+  handleToggleClipboardSync(): void {
+    this.remoteDesktopService.setClipboardSync(!this.remoteDesktopService.isClipboardSyncEnabled());
+  }
+
   toggleFileManager() {
     this.fileManagerVisible = !this.fileManagerVisible;
   }
@@ -79,33 +104,68 @@ export class AppComponent implements OnInit {
     const tunnel = new WebSocketTunnel("ws://localhost:4567/websocket-tunnel")
     this.tunnelRestApiService.initialize("http://localhost:4567")
     this.remoteDesktopService.initialize(tunnel);
+    this.remoteDesktopService.setReconnectPolicy({enabled: true});
+    this.remoteDesktopService.setIdlePolicy({enabled: true, timeout: 10 * 60 * 1000, warningTime: 60 * 1000});
+    this.remoteDesktopService.onIdle.subscribe(() => {
+      this.snackBar.open("Disconnected after 10 minutes of inactivity", "OK", {
+        duration: 5000,
+      });
+    });
 
     this.connect();
-    this.remoteDesktopService.onRemoteClipboardData.subscribe(text => {
+    this.remoteDesktopService.onRemoteClipboardData.subscribe(clipboard => {
+      // The text is already in the local clipboard
+      if (this.remoteDesktopService.onClipboardSyncStatus.getValue() === ClipboardSyncStatus.ACTIVE) {
+        return;
+      }
       const snackbar = this.snackBar.open("Received from remote clipboard", "OPEN CLIPBOARD", {
         duration: 1500,
       });
       snackbar.onAction().subscribe(() => this.handleClipboard());
     });
-    this.remoteDesktopService.onReconnect.subscribe(reconnect => this.connect());
+
+    // Scrub credit card numbers and report what the clipboard policy blocks
+    this.remoteDesktopService.setClipboardPolicy({
+      maxSize: 5 * 1024 * 1024,
+      filters: [createScrubbingFilter(CREDIT_CARD_NUMBER_PATTERN)],
+    });
+    this.remoteDesktopService.onClipboardBlocked.subscribe(blocked => {
+      this.snackBar.open(`Clipboard transfer blocked (${blocked.reason.toLowerCase()})`, 'OK', {
+        duration: 2000,
+      });
+    });
+
+    // Ctrl+Alt+Shift opens the clipboard instead of being sent to the remote desktop
+    this.remoteDesktopService.registerHotkey("clipboard", [Keysym.CONTROL_LEFT, Keysym.ALT_LEFT, Keysym.SHIFT_LEFT]);
+    this.remoteDesktopService.onHotkey.subscribe(hotkey => {
+      if (hotkey === "clipboard") {
+        this.handleClipboard();
+      }
+    });
   }
 
   connect() {
     // You'll want to inject the token and other parameters from your own app
     const token = "ABCDEFGH";
-    const parameters = {
+    const parameters = vncParameters({
       "token": token,
       "hostname": "192.168.1.10",
       "password": "testuser",
-      "scheme": "vnc",
-      "port": "59000",
-      "enable-sftp": "true",
+      "port": 59000,
+      "enable-sftp": true,
       "sftp-hostname": "192.168.1.10",
-      "sftp-port": "2222",
+      "sftp-port": 2222,
       "sftp-username": "testuser",
       "sftp-password": "testuser"
-    };
+    });
     this.tunnelRestApiService.setToken(token);
+
+    // Join the session shared through a share link, if the page was opened from one
+    const shareKey = new URLSearchParams(window.location.search).get(SHARE_KEY_PARAMETER);
+    if (shareKey) {
+      this.remoteDesktopService.joinSharedSession(shareKey, {token});
+      return;
+    }
     this.remoteDesktopService.connect(parameters);
   }
 }
@@ -2,7 +2,7 @@ import { BrowserModule } from '@angular/platform-browser';
 import { NgModule } from '@angular/core';
 
 import { AppComponent } from './app.component';
-import { RemoteDesktopModule } from 'remote-desktop';
+import { BlockKeyCombinationInterceptor, getCharacterKeysym, KEY_INTERCEPTORS, Keysym, RemoteDesktopModule } from 'remote-desktop';
 
 
 import { FormsModule } from '@angular/forms';
@@ -37,6 +37,12 @@ import {MatInputModule} from '@angular/material/input';
         BrowserAnimationsModule
     ],
     providers: [{ provide: OverlayContainer, useClass: FullscreenOverlayContainer },
+        // Win+L would lock the remote desktop
+        {
+            provide: KEY_INTERCEPTORS,
+            useValue: new BlockKeyCombinationInterceptor([[Keysym.SUPER_LEFT, getCharacterKeysym('l')]]),
+            multi: true
+        },
     ],
     bootstrap: [AppComponent]
 })
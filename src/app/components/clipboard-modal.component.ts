@@ -1,6 +1,8 @@
-import { Component, OnInit, Inject } from '@angular/core';
+import { Component, OnInit, OnDestroy, Inject } from '@angular/core';
 import { MatDialogRef, MAT_DIALOG_DATA} from '@angular/material/dialog';
-import { RemoteDesktopService } from 'remote-desktop';
+import { DomSanitizer, SafeUrl } from '@angular/platform-browser';
+import { Subscription } from 'rxjs';
+import { ClipboardData, isImageMimetype, RemoteDesktopService } from 'remote-desktop';
 
 export interface DialogData {
     manager: RemoteDesktopService;
@@ -13,10 +15,11 @@ export interface DialogData {
         <h1 class="modal-title">Clipboard</h1>
         <div class="modal-body">
             <p>
-                Text copied/cut within the remote desktop will appear here. 
+                Text or images copied/cut within the remote desktop will appear here. 
                 Sending the text below will affect the remote desktop clipboard.
             </p>
-            <mat-form-field style="width: 100%;">
+            <img *ngIf="imageUrl" [src]="imageUrl" style="max-width: 100%; max-height: 150px;" alt="Remote clipboard image">
+            <mat-form-field *ngIf="!imageUrl" style="width: 100%;">
                 <textarea style="height: 150px;" matInput type="text" [(ngModel)]="text"></textarea>
             </mat-form-field>
 
@@ -27,23 +30,34 @@ export interface DialogData {
                     [disabled]="text.length === 0">
                 Send to remote desktop clipboard
             </button>
+            <button mat-button type="button" (click)="imageInput.click()">
+                Send an image
+            </button>
+            <input #imageInput type="file" accept="image/png,image/jpeg" hidden (change)="submitImage($event)">
             <button mat-button color="accent" (click)="close()">Close</button>
         </div>
     `
 })
-export class ClipboardModalComponent implements OnInit {
+export class ClipboardModalComponent implements OnInit, OnDestroy {
     constructor(
         public dialogRef: MatDialogRef<ClipboardModalComponent>,
-        @Inject(MAT_DIALOG_DATA) public data: DialogData) {}
+        @Inject(MAT_DIALOG_DATA) public data: DialogData,
+        private sanitizer: DomSanitizer) {}
 
 
     text = '';
-    private clipboardData = [];
-    private clipboardSubscription;
+    imageUrl: SafeUrl = null;
+    private objectUrl: string = null;
+    private clipboardSubscription: Subscription;
 
     ngOnInit() {
-        this.clipboardSubscription = this.data.manager.onRemoteClipboardData;
-        this.clipboardSubscription.subscribe(data => this.text = data);
+        this.clipboardSubscription = this.data.manager.onRemoteClipboardData
+            .subscribe(clipboard => this.handleClipboardData(clipboard));
+    }
+
+    ngOnDestroy() {
+        this.clipboardSubscription.unsubscribe();
+        this.revokeImage();
     }
 
     public close() {
@@ -55,4 +69,31 @@ export class ClipboardModalComponent implements OnInit {
         this.dialogRef.close();
     }
 
+    submitImage(event: Event) {
+        const file = (event.target as HTMLInputElement).files[0];
+        if (file) {
+            this.data.manager.sendRemoteClipboardData({mimetype: file.type, data: file});
+        }
+        this.dialogRef.close();
+    }
+
+    private handleClipboardData(clipboard: ClipboardData) {
+        this.revokeImage();
+        if (isImageMimetype(clipboard.mimetype) && typeof clipboard.data !== 'string') {
+            this.objectUrl = URL.createObjectURL(clipboard.data);
+            this.imageUrl = this.sanitizer.bypassSecurityTrustUrl(this.objectUrl);
+            this.text = '';
+        } else if (typeof clipboard.data === 'string') {
+            this.text = clipboard.data;
+        }
+    }
+
+    private revokeImage() {
+        if (this.objectUrl) {
+            URL.revokeObjectURL(this.objectUrl);
+        }
+        this.objectUrl = null;
+        this.imageUrl = null;
+    }
+
 }